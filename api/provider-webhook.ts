@@ -0,0 +1,125 @@
+import { loadConfig } from '../src/config.js';
+import { ProviderWebhookEvent } from '../src/lib/fulfillment-provider.js';
+import { RequestLike, ResponseLike, getHeader } from '../src/lib/http.js';
+import { createNotificationHub } from '../src/lib/notification-hub.js';
+import { createProviderRegistry } from '../src/lib/provider-registry.js';
+import { createStateStore } from '../src/lib/state-store.js';
+import { VendureClient } from '../src/lib/vendure-client.js';
+import { processProviderWebhook, resolveWebhookProvider } from '../src/provider-webhook.js';
+
+function queryValue(req: RequestLike, name: string): string | undefined {
+  const value = req.query?.[name];
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+/**
+ * Receives webhooks of every fulfillment provider, e.g. `/api/webhooks/printify`.
+ * `?shop=<key>` on the URL picks the provider account; without it the account
+ * is the one whose webhook secret verifies the signature.
+ */
+export default async function handler(req: RequestLike, res: ResponseLike, providerName = queryValue(req, 'provider')) {
+  if (req.method !== 'POST') {
+    res.setHeader('allow', 'POST');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const rawBody = typeof req.body === 'string' || Buffer.isBuffer(req.body) ? req.body.toString() : '';
+
+  let config;
+  try {
+    config = loadConfig();
+  } catch (error) {
+    return res.status(500).json({ error: error instanceof Error ? error.message : String(error) });
+  }
+
+  const reporter = createNotificationHub(config, false);
+
+  const providers = createProviderRegistry(config);
+  if (!providerName || !providers.find(providerName)) {
+    return res.status(404).json({ error: `Unknown fulfillment provider ${providerName ?? ''}`.trim() });
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(rawBody);
+  } catch {
+    payload = undefined;
+  }
+
+  const bypassSecret = getHeader(req.headers, 'x-automation-secret');
+  const hasBypass = Boolean(config.job.secret && bypassSecret && bypassSecret === config.job.secret);
+
+  const provider = resolveWebhookProvider(
+    providers,
+    providerName,
+    (candidate) => hasBypass || candidate.verifyWebhook(rawBody, req.headers),
+    queryValue(req, 'shop'),
+  );
+  if (!provider) {
+    await reporter.notify({ key: 'webhook.rejected', params: { provider: providerName } }, { severity: 'warning' });
+    return res.status(401).json({ error: 'Invalid signature' });
+  }
+
+  if (payload === undefined) {
+    return res.status(400).json({ error: 'Invalid JSON payload' });
+  }
+
+  const event: ProviderWebhookEvent | null = provider.parseWebhook(payload);
+
+  if (!event || !event.externalId) {
+    return res.status(400).json({ error: 'Missing event or external_id' });
+  }
+
+  if (!event.action) {
+    return res.status(200).json({ ignored: true });
+  }
+
+  const vendure = new VendureClient(config.vendure.apiUrl);
+  const store = createStateStore(config.state);
+
+  try {
+    await vendure.authenticate(config.vendure);
+    const result = await processProviderWebhook({ cfg: config, vendure, reporter, store }, provider, event);
+
+    if (result.status === 'ignored') {
+      return res.status(200).json({ ignored: true, reason: result.reason });
+    }
+    if (result.status === 'not-found') {
+      return res.status(404).json({ error: 'Order not found' });
+    }
+    if (result.status === 'duplicate') {
+      return res.status(200).json({ ignored: true, reason: 'duplicate', eventId: result.eventId });
+    }
+    if (result.status === 'stale') {
+      return res.status(200).json({ ignored: true, reason: result.reason });
+    }
+
+    if (result.action.kind === 'transition') {
+      await reporter.notify({
+        key: 'webhook.processed',
+        params: {
+          provider: provider.name,
+          bypass: hasBypass,
+          code: result.orderCode,
+          fulfillmentIds: result.fulfillmentIds,
+          state: result.action.targetState,
+        },
+      });
+    }
+
+    return res.status(200).json({ success: true, bypass: hasBypass });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    try {
+      // The account key travels as the source so replays reach the same account.
+      await store.addDeadLetter({ id: event.id, source: provider.key, payload, error: message });
+    } catch (storeError) {
+      console.error(`Failed to dead-letter ${provider.name} webhook`, storeError);
+    }
+    await reporter.notify(
+      { key: 'webhook.failed', params: { provider: provider.name, error: message, deadLetterId: event.id } },
+      { severity: 'warning' },
+    );
+    return res.status(500).json({ error: message, deadLetterId: event.id });
+  }
+}
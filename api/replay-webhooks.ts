@@ -0,0 +1,63 @@
+import { loadConfig } from '../src/config.js';
+import { RequestLike, ResponseLike, validateSecret } from '../src/lib/http.js';
+import { createStateStore } from '../src/lib/state-store.js';
+import { replayDeadLetters } from '../src/replay-webhooks.js';
+
+function readId(req: RequestLike): string | undefined {
+  if (typeof req.query?.id === 'string' && req.query.id) {
+    return req.query.id;
+  }
+  let body = req.body;
+  if (typeof body === 'string') {
+    try {
+      body = JSON.parse(body);
+    } catch {
+      return undefined;
+    }
+  }
+  const id = (body as { id?: unknown } | null | undefined)?.id;
+  return typeof id === 'string' && id ? id : undefined;
+}
+
+/**
+ * GET lists dead-lettered webhooks; POST replays one (`id` in query or body)
+ * or all of them.
+ */
+export default async function handler(req: RequestLike, res: ResponseLike) {
+  if (req.method !== 'POST' && req.method !== 'GET') {
+    res.setHeader('allow', 'GET, POST');
+    return res.status(405).json({ error: 'Method not allowed. Use GET or POST.' });
+  }
+
+  let config;
+  try {
+    config = loadConfig();
+  } catch (error) {
+    return res.status(500).json({ error: error instanceof Error ? error.message : String(error) });
+  }
+
+  // Replaying mutates Vendure, so unlike the cron routes this one is never open.
+  if (!config.job.secret) {
+    return res.status(403).json({ error: 'AUTOMATION_JOB_SECRET must be configured to use webhook replay.' });
+  }
+  if (!validateSecret(req, config.job.secret)) {
+    return res.status(401).json({ error: 'Invalid or missing automation secret.' });
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const deadLetters = await createStateStore(config.state).listDeadLetters();
+      return res.status(200).json({ deadLetters });
+    }
+
+    const id = readId(req);
+    const result = await replayDeadLetters(config, id);
+    if (id && result.entries[0]?.status === 'missing') {
+      return res.status(404).json({ error: `Dead letter ${id} not found` });
+    }
+    return res.status(200).json(result);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return res.status(500).json({ error: message });
+  }
+}
@@ -0,0 +1,33 @@
+import { loadConfig } from '../src/config.js';
+import { RequestLike, ResponseLike, validateSecret } from '../src/lib/http.js';
+import { runSubmitToProduction } from '../src/submit-to-production.js';
+
+export default async function handler(req: RequestLike, res: ResponseLike) {
+  if (req.method !== 'POST') {
+    res.setHeader('allow', 'POST');
+    return res.status(405).json({ error: 'Method not allowed. Use POST.' });
+  }
+
+  let config;
+  try {
+    config = loadConfig();
+  } catch (error) {
+    return res.status(500).json({ error: error instanceof Error ? error.message : String(error) });
+  }
+
+  if (!validateSecret(req, config.job.secret)) {
+    return res.status(401).json({ error: 'Invalid or missing automation secret.' });
+  }
+
+  if (!config.printify.enabled || !config.printify.autoSubmit.enabled) {
+    return res.status(200).json({ skipped: true, message: 'Printify auto-submit is disabled.' });
+  }
+
+  try {
+    const result = await runSubmitToProduction(config);
+    return res.status(200).json(result);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return res.status(500).json({ error: message });
+  }
+}
@@ -0,0 +1,49 @@
+import { loadConfig } from '../src/config.js';
+import { RequestLike, ResponseLike, getHeader } from '../src/lib/http.js';
+import { TelegramUpdate } from '../src/lib/telegram.js';
+import { handleTelegramUpdate } from '../src/telegram-commands.js';
+
+/**
+ * Receives Telegram bot updates (register it with `setWebhook` and a
+ * `secret_token`). Answers 200 whatever the command outcome so Telegram does
+ * not redeliver the update.
+ */
+export default async function handler(req: RequestLike, res: ResponseLike) {
+  if (req.method !== 'POST') {
+    res.setHeader('allow', 'POST');
+    return res.status(405).json({ error: 'Method not allowed. Use POST.' });
+  }
+
+  let config;
+  try {
+    config = loadConfig();
+  } catch (error) {
+    return res.status(500).json({ error: error instanceof Error ? error.message : String(error) });
+  }
+
+  // Commands can create and pause orders, so the route is never open.
+  if (!config.telegram.webhookSecret) {
+    return res.status(403).json({ error: 'TELEGRAM_WEBHOOK_SECRET must be configured to use bot commands.' });
+  }
+  if (getHeader(req.headers, 'x-telegram-bot-api-secret-token') !== config.telegram.webhookSecret) {
+    return res.status(401).json({ error: 'Invalid or missing Telegram secret token.' });
+  }
+
+  let update = req.body;
+  if (typeof update === 'string') {
+    try {
+      update = JSON.parse(update);
+    } catch {
+      return res.status(400).json({ error: 'Invalid JSON payload.' });
+    }
+  }
+
+  try {
+    const result = await handleTelegramUpdate(config, update as TelegramUpdate);
+    return res.status(200).json(result);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error('[automation] Telegram update failed', message);
+    return res.status(200).json({ status: 'failed', error: message });
+  }
+}
@@ -0,0 +1,33 @@
+import { loadConfig } from '../src/config.js';
+import { RequestLike, ResponseLike, validateSecret } from '../src/lib/http.js';
+import { runValidateMapping } from '../src/validate-mapping.js';
+
+/**
+ * Checks the SKU mapping against the live Vendure and Printify catalogs and
+ * returns the report. Read-only, so GET works as well as POST for cron.
+ */
+export default async function handler(req: RequestLike, res: ResponseLike) {
+  if (req.method !== 'POST' && req.method !== 'GET') {
+    res.setHeader('allow', 'GET, POST');
+    return res.status(405).json({ error: 'Method not allowed. Use GET or POST.' });
+  }
+
+  let config;
+  try {
+    config = loadConfig();
+  } catch (error) {
+    return res.status(500).json({ error: error instanceof Error ? error.message : String(error) });
+  }
+
+  if (!validateSecret(req, config.job.secret)) {
+    return res.status(401).json({ error: 'Invalid or missing automation secret.' });
+  }
+
+  try {
+    const result = await runValidateMapping(config);
+    return res.status(200).json(result);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return res.status(500).json({ error: message });
+  }
+}
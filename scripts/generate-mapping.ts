@@ -0,0 +1,39 @@
+import fs from 'fs';
+import path from 'path';
+
+import { runGenerateMapping } from '../src/generate-mapping.js';
+
+/**
+ * Usage: pnpm generate-mapping [mapping.csv] [report.json]
+ *
+ * Writes the proposed mapping and a report of the match basis per row and of
+ * the unmatched variants on both sides. Review the report (especially rows
+ * matched by title and options) before pointing PRINTIFY_PRODUCT_MAPPING_FILE
+ * at the proposal.
+ */
+async function main() {
+  const [mappingArg, reportArg] = process.argv.slice(2);
+  const mappingPath = path.resolve(mappingArg ?? 'printify-product-mapping.proposed.csv');
+  const reportPath = path.resolve(reportArg ?? mappingPath.replace(/\.csv$/i, '') + '.report.json');
+
+  const result = await runGenerateMapping();
+  const { csv, ...report } = result;
+  fs.writeFileSync(mappingPath, csv);
+  fs.writeFileSync(reportPath, JSON.stringify(report, null, 2) + '\n');
+
+  const bySku = result.rows.filter((row) => row.basis === 'sku').length;
+  console.log(
+    [
+      `Vendure variants: ${result.vendureVariants}, Printify variants: ${result.printifyVariants}`,
+      `Matched: ${result.rows.length} (${bySku} by SKU, ${result.rows.length - bySku} by title and options)`,
+      `Unmatched: ${result.unmatchedVendure.length} Vendure, ${result.unmatchedPrintify.length} Printify`,
+      `Mapping: ${mappingPath}`,
+      `Report: ${reportPath}`,
+    ].join('\n'),
+  );
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
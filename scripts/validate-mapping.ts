@@ -0,0 +1,32 @@
+import fs from 'fs';
+import path from 'path';
+
+import { runValidateMapping, summarizeValidation } from '../src/validate-mapping.js';
+
+/**
+ * Usage: pnpm validate-mapping [report.json]
+ *
+ * Prints the summary, writes the full report as JSON (to stdout when no path
+ * is given) and exits with status 1 when any row has an error, so it can gate
+ * a deploy.
+ */
+async function main() {
+  const [reportArg] = process.argv.slice(2);
+  const result = await runValidateMapping();
+  const report = JSON.stringify(result, null, 2) + '\n';
+  if (reportArg) {
+    fs.writeFileSync(path.resolve(reportArg), report);
+    console.log(summarizeValidation(result));
+  } else {
+    console.error(summarizeValidation(result));
+    process.stdout.write(report);
+  }
+  if (result.errors > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
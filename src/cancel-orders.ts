@@ -0,0 +1,215 @@
+import { AutomationConfig, loadConfig } from './config.js';
+import { createFulfillmentContext } from './fulfill-orders.js';
+import { FulfillmentProvider } from './lib/fulfillment-provider.js';
+import { DEFAULT_PROVIDER, ProviderRegistry, createProviderRegistry } from './lib/provider-registry.js';
+import { OrderRecord } from './lib/state-store.js';
+import { OrderSummary } from './lib/vendure-client.js';
+
+export type CancellationStatus = 'cancelled' | 'already-cancelled' | 'too-late' | 'failed' | 'dry-run';
+
+export interface CancellationResult {
+  code: string;
+  /** Registry key of the provider account, e.g. `printify:apparel`. */
+  provider: string;
+  providerOrderId: string;
+  status: CancellationStatus;
+  providerStatus?: string;
+  reason?: string;
+}
+
+export interface CancelRunResult {
+  dryRun: boolean;
+  cancelled: number;
+  tooLate: number;
+  failed: number;
+  orders: CancellationResult[];
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+interface LinkedProviderOrder {
+  provider: FulfillmentProvider;
+  providerOrderId: string;
+}
+
+/**
+ * Every provider order created for the Vendure order, one per account. Orders
+ * the store does not know about are looked up by external ID in each account.
+ */
+async function linkedProviderOrders(
+  providers: ProviderRegistry,
+  record: OrderRecord | null,
+  orderCode: string,
+  channelShop: string,
+): Promise<LinkedProviderOrder[]> {
+  const linked: LinkedProviderOrder[] = [];
+  const add = (provider: FulfillmentProvider | undefined, providerOrderId: string) => {
+    if (provider && !linked.some((entry) => entry.providerOrderId === providerOrderId)) {
+      linked.push({ provider, providerOrderId });
+    }
+  };
+
+  for (const [providerOrderId, link] of Object.entries(record?.providerOrders ?? {})) {
+    add(providers.find(link.provider, link.accountId), providerOrderId);
+  }
+  if (record?.printifyOrderId && !record.providerOrders) {
+    add(providers.find(DEFAULT_PROVIDER, channelShop), record.printifyOrderId);
+  }
+  if (linked.length === 0) {
+    for (const provider of providers.list()) {
+      const found = await provider.findOrderByExternalId(orderCode);
+      if (found) {
+        add(provider, found.id);
+      }
+    }
+  }
+  return linked;
+}
+
+/**
+ * Finds Vendure orders in `Cancelled` state that still have linked provider
+ * orders and cancels them while the provider allows it. Orders that already reached
+ * production are alerted once so someone can stop them by hand.
+ */
+export async function runCancelOrders(cfg: AutomationConfig = loadConfig()): Promise<CancelRunResult> {
+  const { reporter, vendure, store } = createFulfillmentContext(cfg);
+  const result: CancelRunResult = { dryRun: cfg.job.dryRun, cancelled: 0, tooLate: 0, failed: 0, orders: [] };
+
+  if (!cfg.printify.enabled) {
+    return result;
+  }
+
+  // Dry-run still reads the real provider orders; only the cancel call is skipped.
+  const providers = createProviderRegistry(cfg);
+
+  await reporter.beginRun({ key: 'cancel.started', params: {} });
+  try {
+    await vendure.authenticate(cfg.vendure);
+
+    const orders: Array<{ order: OrderSummary; channelShop: string }> = [];
+    for (const channel of cfg.channels) {
+      vendure.setChannelToken(channel.token);
+      // Most recently updated first, so fresh cancellations are not crowded out by old ones.
+      const cancelled = await vendure.fetchOrders(['Cancelled'], cfg.vendure.maxOrdersPerRun, {
+        sort: { updatedAt: 'DESC' },
+      });
+      orders.push(...cancelled.map((order) => ({ order, channelShop: channel.printifyShopId })));
+    }
+
+    for (const { order, channelShop } of orders) {
+      const record = await store.getOrder(order.code);
+      if (record?.cancellation) {
+        continue;
+      }
+      const linked = await linkedProviderOrders(providers, record, order.code, channelShop);
+      if (linked.length === 0) {
+        // Looking up by external ID pages through every account; remember the miss.
+        if (!cfg.job.dryRun) {
+          await store.updateOrder(order.code, {
+            cancellation: { status: 'no-provider-order', at: new Date().toISOString() },
+          });
+        }
+        continue;
+      }
+
+      // The order counts as handled once every provider order is cancelled or past saving.
+      const entries: CancellationResult[] = [];
+      for (const { provider, providerOrderId } of linked) {
+        const entry: CancellationResult = {
+          code: order.code,
+          provider: provider.key,
+          providerOrderId,
+          status: 'failed',
+        };
+        entries.push(entry);
+        result.orders.push(entry);
+        try {
+          const providerOrder = await provider.getOrder(providerOrderId);
+          entry.providerStatus = providerOrder.status;
+
+          if (providerOrder.cancelled) {
+            entry.status = 'already-cancelled';
+            continue;
+          }
+
+          if (!providerOrder.cancellable) {
+            entry.status = 'too-late';
+            entry.reason = `Provider order is ${providerOrder.status}`;
+            result.tooLate += 1;
+            await reporter.notify(
+              {
+                key: 'cancel.too-late',
+                params: {
+                  code: order.code,
+                  provider: provider.key,
+                  providerName: provider.name,
+                  providerOrderId,
+                  status: providerOrder.status,
+                },
+              },
+              { severity: 'critical' },
+            );
+            if (!cfg.job.dryRun) {
+              await store.updateOrder(order.code, {
+                attempt: { status: 'too-late', step: 'cancel-provider-order', error: entry.reason },
+              });
+            }
+            continue;
+          }
+
+          if (cfg.job.dryRun) {
+            entry.status = 'dry-run';
+            entry.reason = 'Would cancel provider order';
+            continue;
+          }
+
+          const cancelled = await provider.cancelOrder(providerOrderId);
+          entry.status = 'cancelled';
+          entry.providerStatus = cancelled.status;
+          result.cancelled += 1;
+          await store.updateOrder(order.code, {
+            providerOrder: { id: providerOrderId, provider: provider.name, accountId: provider.accountId },
+            attempt: { status: 'cancelled', step: 'cancel-provider-order' },
+          });
+          await reporter.notify({ key: 'cancel.cancelled', params: { code: order.code, provider: provider.key, providerOrderId } }, {
+            entry: { outcome: 'success', subject: order.code, detail: `${provider.key} ${providerOrderId}` },
+          });
+        } catch (error) {
+          entry.status = 'failed';
+          entry.reason = describeError(error);
+          result.failed += 1;
+          await store.updateOrder(order.code, {
+            attempt: { status: 'failed', step: 'cancel-provider-order', error: entry.reason },
+          });
+          await reporter.notify({ key: 'cancel.failed', params: { code: order.code, reason: entry.reason } }, {
+            severity: 'warning',
+            entry: { outcome: 'failure', subject: order.code, detail: entry.reason },
+          });
+        }
+      }
+
+      if (cfg.job.dryRun || entries.some((entry) => entry.status === 'failed')) {
+        continue;
+      }
+      const tooLate = entries.find((entry) => entry.status === 'too-late');
+      await store.updateOrder(order.code, {
+        cancellation: {
+          status: tooLate ? 'too-late' : 'cancelled',
+          at: new Date().toISOString(),
+          providerStatus: (tooLate ?? entries[entries.length - 1]).providerStatus,
+        },
+      });
+    }
+
+    await reporter.endRun({
+      key: 'cancel.completed',
+      params: { dryRun: cfg.job.dryRun, cancelled: result.cancelled, tooLate: result.tooLate, failed: result.failed },
+    });
+    return result;
+  } catch (error) {
+    await reporter.endRun({ key: 'cancel.run-failed', params: { error: describeError(error) } }, 'critical');
+    throw error;
+  }
+}
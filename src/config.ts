@@ -1,31 +1,120 @@
 import fs from 'fs';
+import os from 'os';
 import path from 'path';
 import dotenv from 'dotenv';
 
+import type { FulfillmentProvider } from './lib/fulfillment-provider.js';
+import { LOCALES, Locale } from './lib/messages.js';
+import { NOTIFY_SEVERITIES, NotifySeverity } from './lib/notifier.js';
+import { PrintifyShopConfig, PrintifyShopRegistry } from './lib/printify-shops.js';
+import { ProductMapping, loadMappingFile, mappingRows, parseJsonMapping } from './lib/product-mapping.js';
+import { DEFAULT_PROVIDER, FULFILLMENT_PROVIDERS, ProviderRegistry } from './lib/provider-registry.js';
+import { defaultStateFilePath } from './lib/state-store.js';
+import { ORDER_STATES, OrderState } from './lib/vendure-client.js';
+import type { VendureMappingFields } from './lib/vendure-mapping.js';
+
 // dotenv configured above to load .env.local or .env
 
 const ENV: Record<string, string | undefined> =
   (globalThis as any)?.process?.env ?? {};
 
+export type { ProductMapping, ProductMappingEntry } from './lib/product-mapping.js';
+
+/**
+ * What to do with order lines whose SKU has no Printify mapping: fulfill them
+ * with a separate manual Vendure fulfillment, leave them for a human, or fail
+ * the whole order.
+ */
+export type UnmappedLinePolicy = 'manual' | 'hold' | 'fail';
+
+/**
+ * Where SKU mappings come from: only the mapping file / env, or Vendure
+ * ProductVariant custom fields with the file mapping as an override.
+ */
+export type MappingSource = 'file' | 'vendure';
+
+const MAPPING_SOURCES: MappingSource[] = ['file', 'vendure'];
+
+const UNMAPPED_LINE_POLICIES: UnmappedLinePolicy[] = ['manual', 'hold', 'fail'];
+
+interface NotificationChannelBase {
+  /** Used in logs; defaults to `<type>-<position>`. */
+  name: string;
+  minSeverity: NotifySeverity;
+  digest: boolean;
+  locale: Locale;
+}
+
+/** A notification target from NOTIFY_CHANNELS, in addition to Telegram. */
+export type NotificationChannelConfig =
+  | (NotificationChannelBase & { type: 'slack'; webhookUrl: string })
+  | (NotificationChannelBase & { type: 'email'; smtpUrl: string; from: string; to: string[] })
+  | (NotificationChannelBase & { type: 'webhook'; url: string; headers: Record<string, string> });
+
+const NOTIFICATION_CHANNEL_TYPES: NotificationChannelConfig['type'][] = ['slack', 'email', 'webhook'];
+
+export interface ChannelConfig {
+  code: string;
+  /** Sent as the `vendure-token` header; unset for the default channel. */
+  token?: string;
+  /** Key or ID of the channel's default Printify shop. */
+  printifyShopId: string;
+  shippingMethod?: number;
+  productMapping: ProductMapping;
+  unmappedLines: UnmappedLinePolicy;
+}
+
 export interface AutomationConfig {
   vendure: {
     apiUrl: string;
     username: string;
     password: string;
+    /** Pre-issued bearer token; replaces username/password when set. */
+    apiToken?: string;
     fulfillmentHandlerCode: string;
     fulfillmentMethod: string;
     maxOrdersPerRun: number;
-
+    orderStates: OrderState[];
+    /** Language of the notes the automation adds to orders (NOTIFY_LOCALE). */
+    noteLocale: Locale;
+    /** Only orders created within this many days are considered; unset means no limit. */
+    lookbackDays?: number;
+    /** Admin UI base URL (e.g. https://shop.example.com/admin), for links in Telegram messages. */
+    adminUiUrl?: string;
   };
   telegram: {
     botToken: string;
     chatId: string;
     enabled: boolean;
+    /** Expected `X-Telegram-Bot-Api-Secret-Token` on bot updates. */
+    webhookSecret?: string;
+    /** Chats whose members may run bot commands; defaults to TELEGRAM_CHAT_ID. */
+    allowedChatIds: string[];
+    /** When set, only these users may run bot commands, whatever the chat. */
+    allowedUserIds: string[];
+    /** Send one summary per job run instead of a message per event. */
+    digest: boolean;
+    minSeverity: NotifySeverity;
+    locale: Locale;
   };
+  /** Extra notification targets; every notification goes to Telegram and each of these. */
+  notifications: NotificationChannelConfig[];
   job: {
     dryRun: boolean;
     secret?: string;
   };
+  /** Orders that need an operator's approval on Telegram before reaching a provider. */
+  approval: {
+    enabled: boolean;
+    /** Order total (with tax, minor units) from which approval is required. */
+    minTotal?: number;
+    /** Require approval for a customer's first placed order. */
+    firstTimeCustomers: boolean;
+  };
+  state: {
+    driver: 'file' | 'memory';
+    filePath: string;
+  };
   printify: {
     enabled: boolean;
     apiToken: string;
@@ -35,14 +124,20 @@ export interface AutomationConfig {
     apiBaseUrl: string;
     mockApi: boolean;
     enableWebhook: boolean;
-    productMapping: Record<
-      string,
-      {
-        productId: number;
-        variantId: number;
-      }
-    >;
+    orderLookupPages: number;
+    autoSubmit: {
+      enabled: boolean;
+      holdHours: number;
+    };
+    /** Shop registry; a single `default` shop unless PRINTIFY_SHOPS is set. */
+    shops: PrintifyShopConfig[];
+    productMapping: ProductMapping;
+    mappingSource: MappingSource;
+    /** Custom fields read when `mappingSource` is `vendure`. */
+    mappingFields: VendureMappingFields;
   };
+  /** Vendure channels processed in turn; a single `default` channel unless VENDURE_CHANNELS is set. */
+  channels: ChannelConfig[];
 }
 
 function requireEnv(key: string): string {
@@ -58,116 +153,452 @@ function optionalEnv(key: string): string | undefined {
   return value && value.length > 0 ? value : undefined;
 }
 
-function loadMappingFromCsv(csvPath: string): AutomationConfig['printify']['productMapping'] {
-  const resolved = path.isAbsolute(csvPath) ? csvPath : path.join(process.cwd(), csvPath);
-  if (!fs.existsSync(resolved)) {
-    throw new Error(`PRINTIFY_PRODUCT_MAPPING_CSV not found at path: ${resolved}`);
+/** Parses an inline JSON mapping (PRINTIFY_PRODUCT_MAPPING or a channel's `productMapping`). */
+function parseInlineMapping(raw: string | object, source: string): ProductMapping {
+  const text = typeof raw === 'string' ? raw : JSON.stringify(raw, null, 2);
+  let parsed: unknown;
+  try {
+    parsed = typeof raw === 'string' ? JSON.parse(raw) : raw;
+  } catch (error) {
+    throw new Error(`${source} must be valid JSON. ${(error as Error).message}`);
+  }
+  return parseJsonMapping(parsed, source, text);
+}
+
+/** Narrows one element of a JSON array setting to an object. */
+function asEntry(value: unknown, source: string): Record<string, unknown> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`${source} must be an object`);
   }
-  const raw = fs.readFileSync(resolved, 'utf8');
-  const lines = raw.split(/\r?\n/).map((l) => l.trim()).filter(Boolean);
-  const mapping: AutomationConfig['printify']['productMapping'] = {};
+  return value as Record<string, unknown>;
+}
+
+/**
+ * Parses VENDURE_CHANNELS. Each entry inherits the global Printify shop,
+ * shipping method and mapping unless it overrides them.
+ */
+function loadChannels(
+  raw: string | undefined,
+  defaults: Omit<ChannelConfig, 'code' | 'token'>,
+): ChannelConfig[] {
+  if (!raw) {
+    return [{ code: 'default', ...defaults }];
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`VENDURE_CHANNELS must be valid JSON. ${(error as Error).message}`);
+  }
+  if (!Array.isArray(parsed) || parsed.length === 0) {
+    throw new Error('VENDURE_CHANNELS must be a non-empty JSON array');
+  }
+  return parsed.map((value: unknown, index: number): ChannelConfig => {
+    const entry = asEntry(value, `VENDURE_CHANNELS[${index}]`);
+    const { code, shippingMethod, unmappedLines, printifyShopId, productMapping: inlineMapping } = entry;
+    if (typeof code !== 'string' || !code) {
+      throw new Error(`VENDURE_CHANNELS[${index}]: "code" is required`);
+    }
+    if (shippingMethod !== undefined && typeof shippingMethod !== 'number') {
+      throw new Error(`VENDURE_CHANNELS[${index}]: "shippingMethod" must be a number`);
+    }
+    if (unmappedLines !== undefined && !UNMAPPED_LINE_POLICIES.includes(unmappedLines as UnmappedLinePolicy)) {
+      throw new Error(`VENDURE_CHANNELS[${index}]: "unmappedLines" must be one of ${UNMAPPED_LINE_POLICIES.join(', ')}`);
+    }
+    if (printifyShopId !== undefined && typeof printifyShopId !== 'string' && typeof printifyShopId !== 'number') {
+      throw new Error(`VENDURE_CHANNELS[${index}]: "printifyShopId" must be a string or number`);
+    }
+    let productMapping = defaults.productMapping;
+    const mappingFile = entry.productMappingFile ?? entry.productMappingCsv;
+    if (mappingFile !== undefined && typeof mappingFile !== 'string') {
+      throw new Error(`VENDURE_CHANNELS[${index}]: "productMappingFile" must be a path`);
+    }
+    if (mappingFile) {
+      productMapping = loadMappingFile(mappingFile);
+    } else if (inlineMapping) {
+      if (typeof inlineMapping !== 'string' && typeof inlineMapping !== 'object') {
+        throw new Error(`VENDURE_CHANNELS[${index}]: "productMapping" must be an object or a JSON string`);
+      }
+      productMapping = parseInlineMapping(inlineMapping, `VENDURE_CHANNELS[${index}].productMapping`);
+    }
+    return {
+      code,
+      token: typeof entry.token === 'string' && entry.token ? entry.token : undefined,
+      printifyShopId: printifyShopId !== undefined ? String(printifyShopId) : defaults.printifyShopId,
+      shippingMethod: shippingMethod ?? defaults.shippingMethod,
+      productMapping,
+      unmappedLines: (unmappedLines as UnmappedLinePolicy | undefined) ?? defaults.unmappedLines,
+    };
+  });
+}
 
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    // Skip header if present
-    if (i === 0 && /sku/i.test(line) && /product/i.test(line) && /variant/i.test(line)) {
-      continue;
+/**
+ * Parses PRINTIFY_SHOPS. Shops without their own token use PRINTIFY_API_TOKEN,
+ * so a deployment with one Printify account only needs to list the shop IDs.
+ */
+function loadShops(
+  raw: string | undefined,
+  defaults: Pick<PrintifyShopConfig, 'apiToken' | 'webhookSecret'>,
+): PrintifyShopConfig[] {
+  if (!raw) {
+    return [];
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`PRINTIFY_SHOPS must be valid JSON. ${(error as Error).message}`);
+  }
+  if (!Array.isArray(parsed) || parsed.length === 0) {
+    throw new Error('PRINTIFY_SHOPS must be a non-empty JSON array');
+  }
+  const shops = parsed.map((value: unknown, index: number): PrintifyShopConfig => {
+    const entry = asEntry(value, `PRINTIFY_SHOPS[${index}]`);
+    const { shippingMethod } = entry;
+    if ((typeof entry.shopId !== 'string' && typeof entry.shopId !== 'number') || entry.shopId === '') {
+      throw new Error(`PRINTIFY_SHOPS[${index}]: "shopId" is required`);
     }
-    const parts = line.split(',').map((p) => p.trim());
-    if (parts.length < 3) {
-      throw new Error(`Invalid CSV format at line ${i + 1}: expected sku,productId,variantId`);
+    if (shippingMethod !== undefined && typeof shippingMethod !== 'number') {
+      throw new Error(`PRINTIFY_SHOPS[${index}]: "shippingMethod" must be a number`);
+    }
+    const shopId = String(entry.shopId);
+    return {
+      key: typeof entry.key === 'string' && entry.key ? entry.key : shopId,
+      shopId,
+      apiToken: typeof entry.apiToken === 'string' && entry.apiToken ? entry.apiToken : defaults.apiToken,
+      shippingMethod,
+      webhookSecret:
+        typeof entry.webhookSecret === 'string' && entry.webhookSecret ? entry.webhookSecret : defaults.webhookSecret,
+    };
+  });
+  const keys = new Set<string>();
+  for (const shop of shops) {
+    if (keys.has(shop.key)) {
+      throw new Error(`PRINTIFY_SHOPS: duplicate shop key '${shop.key}'`);
+    }
+    keys.add(shop.key);
+  }
+  return shops;
+}
+
+function parseSeverity(value: unknown, source: string): NotifySeverity {
+  if (value === undefined) {
+    return 'info';
+  }
+  if (!NOTIFY_SEVERITIES.includes(value as NotifySeverity)) {
+    throw new Error(`${source} must be one of ${NOTIFY_SEVERITIES.join(', ')}`);
+  }
+  return value as NotifySeverity;
+}
+
+function parseLocale(value: unknown, source: string, fallback: Locale): Locale {
+  if (value === undefined) {
+    return fallback;
+  }
+  if (!LOCALES.includes(value as Locale)) {
+    throw new Error(`${source} must be one of ${LOCALES.join(', ')}`);
+  }
+  return value as Locale;
+}
+
+/** Parses NOTIFY_CHANNELS, the notification targets besides Telegram. */
+function loadNotificationChannels(raw: string | undefined, defaultLocale: Locale): NotificationChannelConfig[] {
+  if (!raw) {
+    return [];
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`NOTIFY_CHANNELS must be valid JSON. ${(error as Error).message}`);
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error('NOTIFY_CHANNELS must be a JSON array');
+  }
+  const channels = parsed.map((value: unknown, index: number): NotificationChannelConfig => {
+    const source = `NOTIFY_CHANNELS[${index}]`;
+    const entry = asEntry(value, source);
+    const type = entry.type as NotificationChannelConfig['type'];
+    if (!NOTIFICATION_CHANNEL_TYPES.includes(type)) {
+      throw new Error(`${source}: "type" must be one of ${NOTIFICATION_CHANNEL_TYPES.join(', ')}`);
     }
-    const [sku, productIdStr, variantIdStr] = parts;
-    const productId = Number(productIdStr);
-    const variantId = Number(variantIdStr);
-    if (!sku) {
-      throw new Error(`CSV line ${i + 1}: missing sku`);
+    const base: NotificationChannelBase = {
+      name: typeof entry.name === 'string' && entry.name ? entry.name : `${type}-${index + 1}`,
+      minSeverity: parseSeverity(entry.minSeverity, `${source}.minSeverity`),
+      digest: entry.digest === true,
+      locale: parseLocale(entry.locale, `${source}.locale`, defaultLocale),
+    };
+    switch (type) {
+      case 'slack': {
+        const { webhookUrl } = entry;
+        if (typeof webhookUrl !== 'string' || !webhookUrl) {
+          throw new Error(`${source}: "webhookUrl" is required`);
+        }
+        return { ...base, type: 'slack', webhookUrl };
+      }
+      case 'email': {
+        const { smtpUrl, from } = entry;
+        const to: unknown = typeof entry.to === 'string' ? entry.to.split(',').map((address) => address.trim()) : entry.to;
+        if (typeof smtpUrl !== 'string' || !/^smtps?:\/\//.test(smtpUrl)) {
+          throw new Error(`${source}: "smtpUrl" must be an smtp:// or smtps:// URL`);
+        }
+        if (typeof from !== 'string' || !from) {
+          throw new Error(`${source}: "from" is required`);
+        }
+        if (!Array.isArray(to) || to.length === 0 || !to.every((address) => typeof address === 'string' && address)) {
+          throw new Error(`${source}: "to" must list at least one address`);
+        }
+        return { ...base, type: 'email', smtpUrl, from, to: to as string[] };
+      }
+      case 'webhook': {
+        const { url, headers = {} } = entry;
+        if (typeof url !== 'string' || !url) {
+          throw new Error(`${source}: "url" is required`);
+        }
+        if (
+          !headers ||
+          typeof headers !== 'object' ||
+          Array.isArray(headers) ||
+          !Object.values(headers).every((header) => typeof header === 'string')
+        ) {
+          throw new Error(`${source}: "headers" must be an object of strings`);
+        }
+        return { ...base, type: 'webhook', url, headers: headers as Record<string, string> };
+      }
     }
-    if (!Number.isFinite(productId) || !Number.isFinite(variantId)) {
-      throw new Error(`CSV line ${i + 1}: productId and variantId must be numbers`);
+  });
+  const names = new Set<string>();
+  for (const channel of channels) {
+    if (names.has(channel.name)) {
+      throw new Error(`NOTIFY_CHANNELS: duplicate name '${channel.name}'`);
     }
-    mapping[sku] = { productId, variantId };
+    names.add(channel.name);
   }
+  return channels;
+}
+
+let stateWarningShown = false;
+
+/**
+ * Dedup, dead letters, approvals and the pause switch only work while every
+ * route sees the same state file. A file in the temporary directory (the
+ * default, and the only writable place on Vercel) is per instance and lost on
+ * restart, so say so once per process instead of refusing to start.
+ */
+function warnIfStateNotDurable(filePath: string): void {
+  const relative = path.relative(os.tmpdir(), path.resolve(filePath));
+  if (stateWarningShown || relative.startsWith('..') || path.isAbsolute(relative)) {
+    return;
+  }
+  stateWarningShown = true;
+  console.warn(
+    `[automation] State file ${filePath} is in the temporary directory and is not durable; ` +
+      'set AUTOMATION_STATE_FILE to shared persistent storage',
+  );
+}
 
-  return mapping;
+export interface LoadConfigOptions {
+  /** Set to false for tools that build the mapping, so an empty mapping is not an error. */
+  requireMapping?: boolean;
 }
 
-export function loadConfig(): AutomationConfig {
+export function loadConfig(options: LoadConfigOptions = {}): AutomationConfig {
   const dryRun = (ENV['FULFILLMENT_DRY_RUN'] ?? '').toLowerCase() === 'true';
   const maxOrdersPerRun = Number(ENV['FULFILLMENT_MAX_ORDERS'] ?? '20');
   if (!Number.isFinite(maxOrdersPerRun) || maxOrdersPerRun <= 0) {
     throw new Error('FULFILLMENT_MAX_ORDERS must be a positive number if provided');
   }
 
+  const orderStates = (optionalEnv('FULFILLMENT_ORDER_STATES') ?? 'PaymentSettled,PaymentAuthorized,PartiallyFulfilled')
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean);
+  if (orderStates.length === 0) {
+    throw new Error('FULFILLMENT_ORDER_STATES must list at least one order state if provided');
+  }
+  const unknownStates = orderStates.filter((state) => !ORDER_STATES.includes(state as OrderState));
+  if (unknownStates.length > 0) {
+    throw new Error(
+      `FULFILLMENT_ORDER_STATES: unknown order state ${unknownStates.join(', ')} (expected ${ORDER_STATES.join(', ')})`,
+    );
+  }
+
+  const vendureApiToken = optionalEnv('VENDURE_ADMIN_API_TOKEN');
+
+  const lookbackRaw = optionalEnv('FULFILLMENT_LOOKBACK_DAYS');
+  const lookbackDays = lookbackRaw ? Number(lookbackRaw) : undefined;
+  if (lookbackDays !== undefined && (!Number.isFinite(lookbackDays) || lookbackDays <= 0)) {
+    throw new Error('FULFILLMENT_LOOKBACK_DAYS must be a positive number if provided');
+  }
+
+  const unmappedLines = (optionalEnv('FULFILLMENT_UNMAPPED_LINES') ?? 'hold').toLowerCase() as UnmappedLinePolicy;
+  if (!UNMAPPED_LINE_POLICIES.includes(unmappedLines)) {
+    throw new Error(`FULFILLMENT_UNMAPPED_LINES must be one of ${UNMAPPED_LINE_POLICIES.join(', ')}`);
+  }
+
+  const approvalMinRaw = optionalEnv('FULFILLMENT_APPROVAL_MIN_TOTAL');
+  const approvalMinTotal = approvalMinRaw ? Math.round(Number(approvalMinRaw) * 100) : undefined;
+  if (approvalMinTotal !== undefined && (!Number.isFinite(approvalMinTotal) || approvalMinTotal <= 0)) {
+    throw new Error('FULFILLMENT_APPROVAL_MIN_TOTAL must be a positive amount if provided');
+  }
+  const approvalFirstOrder = (ENV['FULFILLMENT_APPROVAL_FIRST_ORDER'] ?? '').toLowerCase() === 'true';
+  const approvalEnabled = approvalMinTotal !== undefined || approvalFirstOrder;
+
+  const stateDriver = (optionalEnv('AUTOMATION_STATE_DRIVER') ?? 'file').toLowerCase();
+  if (stateDriver !== 'file' && stateDriver !== 'memory') {
+    throw new Error('AUTOMATION_STATE_DRIVER must be either "file" or "memory"');
+  }
+  const stateFile = optionalEnv('AUTOMATION_STATE_FILE') ?? defaultStateFilePath();
+  if (stateDriver === 'file') {
+    warnIfStateNotDurable(stateFile);
+  }
+
   const botToken = optionalEnv('TELEGRAM_BOT_TOKEN');
   const chatId = optionalEnv('TELEGRAM_CHAT_ID');
   const telegramEnabled = Boolean(botToken && chatId);
+  const idList = (raw: string | undefined) => (raw ?? '').split(',').map((id) => id.trim()).filter(Boolean);
+  const allowedChatIds = idList(optionalEnv('TELEGRAM_ALLOWED_CHAT_IDS') ?? chatId);
+  const allowedUserIds = idList(optionalEnv('TELEGRAM_ALLOWED_USER_IDS'));
+  const notifyLocale = parseLocale(optionalEnv('NOTIFY_LOCALE'), 'NOTIFY_LOCALE', 'vi');
+  // Parked orders can only be released through the bot, so approval without it would park them for good.
+  if (approvalEnabled && (!telegramEnabled || !optionalEnv('TELEGRAM_WEBHOOK_SECRET'))) {
+    throw new Error(
+      'Order approval needs TELEGRAM_BOT_TOKEN, TELEGRAM_CHAT_ID and TELEGRAM_WEBHOOK_SECRET to be configured',
+    );
+  }
 
   const printifyToken = optionalEnv('PRINTIFY_API_TOKEN');
   const printifyShopId = optionalEnv('PRINTIFY_SHOP_ID');
   const printifyApiBaseUrl = optionalEnv('PRINTIFY_API_BASE_URL') ?? 'https://api.printify.com/v1';
   const printifyMock = (ENV['PRINTIFY_API_MOCK'] ?? '').toLowerCase() === 'true';
   const printifyWebhookFlag = (ENV['PRINTIFY_WEBHOOK_ENABLED'] ?? '').toLowerCase() === 'true';
-  const printifyEnabled = printifyMock || Boolean(printifyToken && printifyShopId);
   const printifyShippingMethod = optionalEnv('PRINTIFY_SHIPPING_METHOD');
   const printifyWebhookSecret = optionalEnv('PRINTIFY_WEBHOOK_SECRET');
+  const printifyAutoSubmit = (ENV['PRINTIFY_AUTO_SUBMIT'] ?? '').toLowerCase() === 'true';
+  const printifyHoldHours = Number(ENV['PRINTIFY_AUTO_SUBMIT_HOLD_HOURS'] ?? '2');
+  if (!Number.isFinite(printifyHoldHours) || printifyHoldHours < 0) {
+    throw new Error('PRINTIFY_AUTO_SUBMIT_HOLD_HOURS must be a non-negative number if provided');
+  }
+  const printifyOrderLookupPages = Number(ENV['PRINTIFY_ORDER_LOOKUP_PAGES'] ?? '5');
+  if (!Number.isFinite(printifyOrderLookupPages) || printifyOrderLookupPages < 0) {
+    throw new Error('PRINTIFY_ORDER_LOOKUP_PAGES must be a non-negative number if provided');
+  }
 
-  // Load mapping: CSV takes precedence over JSON env
-  const mappingCsvPath = optionalEnv('PRINTIFY_PRODUCT_MAPPING_CSV');
-  let productMapping: AutomationConfig['printify']['productMapping'] = {};
-
-  if (mappingCsvPath) {
-    productMapping = loadMappingFromCsv(mappingCsvPath);
-  } else {
-    const mappingRaw = optionalEnv('PRINTIFY_PRODUCT_MAPPING') ?? '{}';
-    try {
-      const parsed = JSON.parse(mappingRaw) as Record<string, unknown>;
-      if (parsed && typeof parsed === 'object') {
-        const validated: AutomationConfig['printify']['productMapping'] = {};
-        for (const [key, value] of Object.entries(parsed)) {
-          if (
-            value &&
-            typeof value === 'object' &&
-            'productId' in value &&
-            'variantId' in value &&
-            typeof (value as any).productId === 'number' &&
-            typeof (value as any).variantId === 'number'
-          ) {
-            validated[key] = {
-              productId: (value as any).productId,
-              variantId: (value as any).variantId,
-            };
-          }
-        }
-        productMapping = validated;
-      }
-    } catch (error) {
-      throw new Error(`PRINTIFY_PRODUCT_MAPPING must be valid JSON. ${(error as Error).message}`);
+  // Load mapping: a CSV/JSON file takes precedence over JSON env
+  const mappingFilePath = optionalEnv('PRINTIFY_PRODUCT_MAPPING_FILE') ?? optionalEnv('PRINTIFY_PRODUCT_MAPPING_CSV');
+  const productMapping: ProductMapping = mappingFilePath
+    ? loadMappingFile(mappingFilePath)
+    : parseInlineMapping(optionalEnv('PRINTIFY_PRODUCT_MAPPING') ?? '{}', 'PRINTIFY_PRODUCT_MAPPING');
+
+  const mappingSource = (optionalEnv('PRINTIFY_MAPPING_SOURCE') ?? 'file').toLowerCase() as MappingSource;
+  if (!MAPPING_SOURCES.includes(mappingSource)) {
+    throw new Error(`PRINTIFY_MAPPING_SOURCE must be one of ${MAPPING_SOURCES.join(', ')}`);
+  }
+  const mappingFields: VendureMappingFields = {
+    productId: optionalEnv('VENDURE_PRINTIFY_PRODUCT_FIELD') ?? 'printifyProductId',
+    variantId: optionalEnv('VENDURE_PRINTIFY_VARIANT_FIELD') ?? 'printifyVariantId',
+    shop: optionalEnv('VENDURE_PRINTIFY_SHOP_FIELD'),
+  };
+  // Field names are spliced into the GraphQL query.
+  for (const field of [mappingFields.productId, mappingFields.variantId, mappingFields.shop]) {
+    if (field !== undefined && !/^[A-Za-z_][A-Za-z0-9_]*$/.test(field)) {
+      throw new Error(`Invalid Vendure custom field name: ${field}`);
     }
   }
 
-  if (printifyEnabled && Object.keys(productMapping).length === 0) {
-    throw new Error('Printify product mapping is required when Printify integration is enabled. Provide PRINTIFY_PRODUCT_MAPPING_CSV or PRINTIFY_PRODUCT_MAPPING.');
+  const shopDefaults = { apiToken: printifyToken ?? '', webhookSecret: printifyWebhookSecret };
+  const shops = loadShops(optionalEnv('PRINTIFY_SHOPS'), shopDefaults);
+  if (shops.length === 0 && (printifyShopId || printifyMock)) {
+    shops.push({ key: 'default', shopId: printifyShopId ?? 'mock-shop', ...shopDefaults });
+  }
+
+  const channels = loadChannels(optionalEnv('VENDURE_CHANNELS'), {
+    printifyShopId: printifyShopId ?? shops[0]?.key ?? '',
+    shippingMethod: printifyShippingMethod ? Number(printifyShippingMethod) : undefined,
+    productMapping,
+    unmappedLines,
+  });
+
+  // Channels that name a bare shop ID outside PRINTIFY_SHOPS keep working with the global token.
+  const registry = new PrintifyShopRegistry(shops);
+  for (const channel of channels) {
+    if (channel.printifyShopId && !registry.find(channel.printifyShopId)) {
+      shops.push({ key: channel.printifyShopId, shopId: channel.printifyShopId, ...shopDefaults });
+    }
+  }
+
+  const printifyEnabled =
+    printifyMock ||
+    (shops.length > 0 &&
+      shops.every((shop) => shop.apiToken) &&
+      channels.every((channel) => channel.printifyShopId));
+
+  if (printifyEnabled) {
+    for (const channel of channels) {
+      if (options.requireMapping !== false && mappingSource === 'file' && Object.keys(channel.productMapping).length === 0) {
+        throw new Error(
+          `Printify product mapping is required when Printify integration is enabled (channel ${channel.code}). Provide PRINTIFY_PRODUCT_MAPPING_FILE or PRINTIFY_PRODUCT_MAPPING, or set PRINTIFY_MAPPING_SOURCE=vendure.`,
+        );
+      }
+      const rows = Object.entries(channel.productMapping).flatMap(([sku, entry]) =>
+        mappingRows(entry).map((row) => [sku, row] as const),
+      );
+      const unsupported = rows
+        .filter(([, entry]) => entry.provider && !FULFILLMENT_PROVIDERS.includes(entry.provider))
+        .map(([sku, entry]) => `${sku} → ${entry.provider}`);
+      if (unsupported.length > 0) {
+        throw new Error(
+          `Product mapping references unsupported providers (channel ${channel.code}): ${unsupported.join(', ')}. Supported: ${FULFILLMENT_PROVIDERS.join(', ')}`,
+        );
+      }
+      const unknown = rows
+        .filter(([, entry]) => entry.shop && !registry.find(entry.shop))
+        .map(([sku, entry]) => `${sku} → ${entry.shop}`);
+      if (unknown.length > 0) {
+        throw new Error(`Product mapping references unknown Printify shops (channel ${channel.code}): ${unknown.join(', ')}`);
+      }
+    }
   }
 
   return {
     vendure: {
       apiUrl: requireEnv('VENDURE_ADMIN_API_URL'),
-      username: requireEnv('VENDURE_ADMIN_EMAIL'),
-      password: requireEnv('VENDURE_ADMIN_PASSWORD'),
+      username: vendureApiToken ? ENV['VENDURE_ADMIN_EMAIL'] ?? '' : requireEnv('VENDURE_ADMIN_EMAIL'),
+      password: vendureApiToken ? ENV['VENDURE_ADMIN_PASSWORD'] ?? '' : requireEnv('VENDURE_ADMIN_PASSWORD'),
+      apiToken: vendureApiToken,
       fulfillmentHandlerCode: ENV['FULFILLMENT_HANDLER_CODE'] ?? 'manual-fulfillment',
       maxOrdersPerRun,
+      orderStates: orderStates as OrderState[],
+      noteLocale: notifyLocale,
+      lookbackDays,
       fulfillmentMethod: 'printify',
+      adminUiUrl: optionalEnv('VENDURE_ADMIN_UI_URL')?.replace(/\/$/, ''),
     },
     telegram: {
       botToken: botToken ?? '',
       chatId: chatId ?? '',
       enabled: telegramEnabled,
+      webhookSecret: optionalEnv('TELEGRAM_WEBHOOK_SECRET'),
+      allowedChatIds,
+      allowedUserIds,
+      digest: (ENV['TELEGRAM_DIGEST'] ?? '').toLowerCase() === 'true',
+      minSeverity: parseSeverity(optionalEnv('TELEGRAM_MIN_SEVERITY'), 'TELEGRAM_MIN_SEVERITY'),
+      locale: parseLocale(optionalEnv('TELEGRAM_LOCALE'), 'TELEGRAM_LOCALE', notifyLocale),
     },
+    notifications: loadNotificationChannels(optionalEnv('NOTIFY_CHANNELS'), notifyLocale),
     job: {
       dryRun,
       secret: optionalEnv('AUTOMATION_JOB_SECRET'),
     },
+    approval: {
+      enabled: approvalEnabled,
+      minTotal: approvalMinTotal,
+      firstTimeCustomers: approvalFirstOrder,
+    },
+    state: {
+      driver: stateDriver,
+      filePath: stateFile,
+    },
     printify: {
       enabled: printifyEnabled,
       apiToken: printifyToken ?? '',
@@ -177,11 +608,46 @@ export function loadConfig(): AutomationConfig {
       apiBaseUrl: printifyApiBaseUrl,
       mockApi: printifyMock,
       enableWebhook: printifyWebhookFlag,
+      orderLookupPages: printifyOrderLookupPages,
+      autoSubmit: {
+        enabled: printifyAutoSubmit,
+        holdHours: printifyHoldHours,
+      },
+      shops,
       productMapping,
+      mappingSource,
+      mappingFields,
     },
+    channels,
   };
 }
 
+/**
+ * Every SKU mapping across channels, for lookups that do not know the channel
+ * (e.g. webhooks). With `provider`, only SKUs fulfilled by that account are kept.
+ */
+export function mergedProductMapping(cfg: AutomationConfig, provider?: FulfillmentProvider): ProductMapping {
+  if (!provider) {
+    return cfg.channels.reduce<ProductMapping>(
+      (merged, channel) => ({ ...merged, ...channel.productMapping }),
+      { ...cfg.printify.productMapping },
+    );
+  }
+  const registry = new ProviderRegistry(new PrintifyShopRegistry(cfg.printify.shops));
+  const merged: ProductMapping = {};
+  for (const channel of cfg.channels) {
+    for (const [sku, entry] of Object.entries(channel.productMapping)) {
+      const rows = mappingRows(entry)
+        .filter((row) => registry.find(row.provider ?? DEFAULT_PROVIDER, row.shop ?? channel.printifyShopId)?.key === provider.key)
+        .map(({ alternatives: _alternatives, ...row }) => row);
+      if (rows.length > 0) {
+        merged[sku] = rows.length > 1 ? { ...rows[0], alternatives: rows.slice(1) } : rows[0];
+      }
+    }
+  }
+  return merged;
+}
+
 const envLocal = path.join(process.cwd(), '.env.local');
 const envDefault = path.join(process.cwd(), '.env');
 if (fs.existsSync(envLocal)) {
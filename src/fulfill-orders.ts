@@ -1,149 +1,722 @@
-import { loadConfig } from './config.js';
-import { PrintifyClient, CreatePrintifyOrderInput, PrintifyLineItemInput } from './lib/printify-client.js';
+import { AutomationConfig, ChannelConfig, loadConfig } from './config.js';
+import { FulfillmentProvider, ProviderAddress, ProviderLineItem } from './lib/fulfillment-provider.js';
+import { NotificationEvent, renderMessage } from './lib/messages.js';
+import { createNotificationHub, createTelegramReporter } from './lib/notification-hub.js';
+import { Notifier } from './lib/notifier.js';
+import { ProductMappingEntry, resolveMappingEntry } from './lib/product-mapping.js';
+import { ProviderRegistry, createProviderRegistry } from './lib/provider-registry.js';
+import { OrderRecord, StateStore, createStateStore } from './lib/state-store.js';
 import { TelegramReporter } from './lib/telegram.js';
+import { VendureMappingSource, createVendureMappingSource } from './lib/vendure-mapping.js';
 import { VendureClient, OrderSummary, getOutstandingFulfillmentLines, OutstandingLine } from './lib/vendure-client.js';
+import { approvalButtons, approvalReasons, approvalRequest, describeApprovalReason } from './order-approval.js';
 
-function splitName(fullName?: string | null): { first: string; last: string } {
-  const name = (fullName ?? '').trim();
-  if (!name) return { first: 'Customer', last: '' };
-  const parts = name.split(/\s+/);
-  return { first: parts[0], last: parts.slice(1).join(' ') };
+export type FulfillmentStepName =
+  | 'select'
+  | 'validate'
+  | 'route'
+  | 'approve'
+  | 'create-provider-order'
+  | 'create-vendure-fulfillment';
+
+export type OrderFulfillmentStatus = 'fulfilled' | 'skipped' | 'failed' | 'dry-run';
+
+export interface OrderFulfillmentResult {
+  channel: string;
+  orderId: string;
+  code: string;
+  status: OrderFulfillmentStatus;
+  /** Step that skipped or failed the order. */
+  step?: FulfillmentStepName;
+  reason?: string;
+  /** One entry per provider account the order was split into, plus one for manually fulfilled lines. Held lines are in none. */
+  shopOrders: ShopOrderResult[];
+  /** SKUs of unmapped lines held under the `hold` policy; they are not part of any fulfillment. */
+  heldSkus?: string[];
+}
+
+export interface ShopOrderResult {
+  /** Registry key of the provider account (e.g. `printify:apparel`); unset for manual fulfillments. */
+  provider?: string;
+  providerOrderId?: string;
+  /** True when an existing provider order for this code was reused instead of creating one. */
+  providerOrderReused?: boolean;
+  fulfillmentId?: string;
+  fulfillmentState?: string;
+}
+
+export interface ChannelRunSummary {
+  code: string;
+  fulfilled: number;
+  skipped: number;
+  failed: number;
+  /** Set when the channel could not be processed at all (e.g. order query failed). */
+  error?: string;
+}
+
+export interface FulfillmentRunResult {
+  dryRun: boolean;
+  fulfilled: number;
+  skipped: number;
+  failed: number;
+  channels: ChannelRunSummary[];
+  orders: OrderFulfillmentResult[];
+  /** Set when the run did nothing because operators paused the job. */
+  paused?: boolean;
 }
 
-function buildPrintifyLineItems(order: OrderSummary, mapping: Record<string, { productId: number; variantId: number }>): PrintifyLineItemInput[] {
+export interface FulfillmentContext {
+  cfg: AutomationConfig;
+  channel: ChannelConfig;
+  vendure: VendureClient;
+  /** Null when Printify is disabled and orders are fulfilled manually. */
+  providers: ProviderRegistry | null;
+  /** Null unless mappings are read from Vendure custom fields (PRINTIFY_MAPPING_SOURCE=vendure). */
+  mappings: VendureMappingSource | null;
+  /** Every configured notification channel. */
+  reporter: Notifier;
+  /** The bot itself, for approval requests. */
+  telegram: TelegramReporter;
+  store: StateStore;
+  /** Whether the Admin API exposes a fulfillment mutation; detected once per run. */
+  canVendureFulfill: boolean;
+}
+
+/**
+ * Mutable per-order state handed from one step to the next.
+ */
+export interface OrderJob {
+  order: OrderSummary;
+  outstanding: OutstandingLine[];
+  /** Filled by the route step. */
+  shopOrders: ShopOrder[];
+  /** Unmapped lines left out of this run under the `hold` policy. */
+  heldLines: OutstandingLine[];
+}
+
+/**
+ * The outstanding lines that go to one provider account, such as a Printify
+ * shop (or, with `provider: null`, to a manual Vendure fulfillment). Each
+ * becomes its own provider order and its own Vendure fulfillment, so webhooks
+ * from that account only ever touch the lines it produces.
+ */
+export interface ShopOrder {
+  provider: FulfillmentProvider | null;
+  lines: OutstandingLine[];
+  lineItems: ProviderLineItem[];
+  /** Shipping method override from the SKU mapping; wins over the shop and channel default. */
+  shippingMethod?: number;
+  providerOrderId?: string;
+  providerOrderReused?: boolean;
+  fulfillmentId?: string;
+  fulfillmentState?: string;
+}
+
+/**
+ * A step returns nothing to let the order continue, or an outcome to stop the
+ * pipeline for this order. Throwing marks the order as failed at that step.
+ */
+export type StepOutcome = { status: 'skipped' | 'dry-run'; reason: string };
+
+export interface FulfillmentStep {
+  name: FulfillmentStepName;
+  run: (ctx: FulfillmentContext, job: OrderJob) => Promise<StepOutcome | void>;
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export function splitName(fullName?: string | null): { firstName: string; lastName: string } {
+  const parts = (fullName ?? '').trim().split(/\s+/).filter(Boolean);
+  if (parts.length === 0) {
+    return { firstName: 'Customer', lastName: 'Unknown' };
+  }
+  if (parts.length === 1) {
+    return { firstName: parts[0], lastName: 'Customer' };
+  }
+  return { firstName: parts[0], lastName: parts.slice(1).join(' ') };
+}
+
+export function buildShippingAddress(order: OrderSummary): ProviderAddress {
+  const address = order.shippingAddress;
+  if (!address) {
+    throw new Error('Order missing shipping address');
+  }
+  const { firstName, lastName } = splitName(address.fullName);
+  return {
+    firstName,
+    lastName,
+    email: order.customer?.emailAddress || 'no-reply@example.com',
+    phone: address.phoneNumber || undefined,
+    country: address.countryCode || 'US',
+    region: address.provinceCode || address.province || undefined,
+    address1: address.streetLine1 || 'Unknown address line 1',
+    address2: address.streetLine2 || undefined,
+    city: address.city || 'Unknown city',
+    zip: address.postalCode || '00000',
+  };
+}
+
+/** Upper bound on order pages read while skipping parked orders. */
+const MAX_SELECT_PAGES = 10;
+
+/**
+ * Why an order the query returns has nothing to do this run: it waits for or
+ * was refused approval, or every outstanding line is held for lack of a mapping.
+ */
+function parkedBy(record: OrderRecord | null, order: OrderSummary): 'approval' | 'held' | null {
+  if (record?.approval?.status === 'pending' || record?.approval?.status === 'rejected') {
+    return 'approval';
+  }
+  const held = new Set(record?.heldLines ?? []);
   const outstanding = getOutstandingFulfillmentLines(order);
-  const result: PrintifyLineItemInput[] = [];
-  for (const line of outstanding) {
-    const sku = line.sku ?? line.variantName;
-    const map = sku ? mapping[sku] : undefined;
-    if (!map) {
-      throw new Error(`No Printify mapping found for SKU '${sku}'`);
+  if (held.size > 0 && outstanding.length > 0 && outstanding.every((line) => held.has(line.orderLineId))) {
+    return 'held';
+  }
+  return null;
+}
+
+/**
+ * Picks up to `maxOrdersPerRun` orders, oldest first. Parked orders stay in a
+ * fulfillable state, so they are paged past instead of filling every batch:
+ * orders awaiting or refused approval are left out until an operator approves
+ * them, and orders with only held lines are only taken when there is room
+ * left, so they still go out once their mapping is added.
+ */
+export async function selectOrders(ctx: FulfillmentContext): Promise<OrderSummary[]> {
+  const { orderStates, maxOrdersPerRun, lookbackDays } = ctx.cfg.vendure;
+  const createdAfter = lookbackDays ? new Date(Date.now() - lookbackDays * 86_400_000).toISOString() : undefined;
+  const ready: OrderSummary[] = [];
+  const held: OrderSummary[] = [];
+  let cursor: string | undefined;
+  for (let page = 0; page < MAX_SELECT_PAGES && ready.length < maxOrdersPerRun; page++) {
+    const batch = await ctx.vendure.fetchOrdersPage(orderStates, { createdAfter, cursor });
+    for (const order of batch.items) {
+      const parked = parkedBy(await ctx.store.getOrder(order.code), order);
+      if (parked === 'held') {
+        held.push(order);
+      } else if (!parked) {
+        ready.push(order);
+      }
+    }
+    if (!batch.nextCursor) {
+      break;
     }
-    result.push({ productId: map.productId, variantId: map.variantId, quantity: line.quantity });
+    cursor = batch.nextCursor;
   }
-  return result;
+  return [...ready, ...held].slice(0, maxOrdersPerRun);
 }
 
-async function fulfillOrder(
-  vendure: VendureClient,
-  printify: PrintifyClient | null,
-  reporter: TelegramReporter,
-  cfg: ReturnType<typeof loadConfig>,
-  order: OrderSummary
-): Promise<void> {
-  const outstanding = getOutstandingFulfillmentLines(order);
-  if (outstanding.length === 0) {
-    await reporter.notify(`Skip order ${order.code}`, 'No outstanding lines to fulfill');
+const validateStep: FulfillmentStep = {
+  name: 'validate',
+  async run(ctx, job) {
+    job.outstanding = getOutstandingFulfillmentLines(job.order);
+    if (job.outstanding.length === 0) {
+      return { status: 'skipped', reason: 'No outstanding lines to fulfill' };
+    }
+    if (ctx.providers && !job.order.shippingAddress) {
+      throw new Error('Order missing shipping address');
+    }
+  },
+};
+
+const routeStep: FulfillmentStep = {
+  name: 'route',
+  async run(ctx, job) {
+    if (!ctx.providers) {
+      job.shopOrders = [{ provider: null, lines: job.outstanding, lineItems: [] }];
+      return;
+    }
+    // Rows may be limited to some destination countries; a line whose SKU has
+    // no row for this order's country counts as unmapped.
+    const skus = job.outstanding.map((line) => line.sku ?? line.variantName);
+    const mapping = ctx.mappings ? await ctx.mappings.mappingFor(ctx.channel, skus) : ctx.channel.productMapping;
+    const country = job.order.shippingAddress?.countryCode;
+    const entries = new Map<string, ProductMappingEntry>();
+    for (const line of job.outstanding) {
+      const entry = resolveMappingEntry(mapping[line.sku ?? line.variantName], country);
+      if (entry) {
+        entries.set(line.orderLineId, entry);
+      }
+    }
+    const unmapped = job.outstanding.filter((line) => !entries.has(line.orderLineId));
+    if (unmapped.length > 0) {
+      const policy = ctx.channel.unmappedLines;
+      if (policy === 'fail') {
+        throw new Error(`Missing Printify mapping for SKUs: ${unmapped.map((line) => line.sku ?? line.variantName).join(', ')}`);
+      }
+      if (policy === 'manual') {
+        job.shopOrders.push({ provider: null, lines: unmapped, lineItems: [] });
+      } else {
+        job.heldLines = unmapped;
+      }
+    }
+    await recordHeldLines(ctx, job);
+
+    const byShop = new Map<string, ShopOrder>();
+    for (const line of job.outstanding) {
+      const sku = line.sku ?? line.variantName;
+      const entry = entries.get(line.orderLineId);
+      if (!entry) {
+        continue;
+      }
+      const provider = ctx.providers.forMapping(entry, ctx.channel);
+      let shopOrder = byShop.get(provider.key);
+      if (!shopOrder) {
+        shopOrder = { provider, lines: [], lineItems: [] };
+        byShop.set(provider.key, shopOrder);
+      }
+      if (entry.shippingMethod !== undefined) {
+        if (shopOrder.shippingMethod !== undefined && shopOrder.shippingMethod !== entry.shippingMethod) {
+          throw new Error(
+            `Conflicting shipping method overrides for ${provider.key} (${shopOrder.shippingMethod} vs ${entry.shippingMethod} on ${sku})`,
+          );
+        }
+        shopOrder.shippingMethod = entry.shippingMethod;
+      }
+      shopOrder.lines.push(line);
+      shopOrder.lineItems.push({
+        productId: entry.productId,
+        variantId: entry.variantId,
+        blueprintId: entry.blueprintId,
+        printProviderId: entry.printProviderId,
+        printAreas: entry.printAreas,
+        quantity: line.quantity,
+        metadata: {
+          vendureOrderLineId: line.orderLineId,
+          sku,
+          variantName: line.variantName,
+        },
+      });
+    }
+    job.shopOrders = [...byShop.values(), ...job.shopOrders];
+    if (job.shopOrders.length === 0) {
+      return { status: 'skipped', reason: `Held for manual fulfillment: ${heldSkus(job).join(', ')}` };
+    }
+  },
+};
+
+function heldSkus(job: OrderJob): string[] {
+  return job.heldLines.map((line) => line.sku ?? line.variantName);
+}
+
+/**
+ * Held lines keep the order in a fulfillable state, so it is picked up again
+ * every run. Alert only when the set of held lines changes.
+ */
+async function recordHeldLines(ctx: FulfillmentContext, job: OrderJob): Promise<void> {
+  const record = await ctx.store.getOrder(job.order.code);
+  const ids = job.heldLines.map((line) => line.orderLineId).sort();
+  if ((record?.heldLines ?? []).join(',') === ids.join(',')) {
     return;
   }
+  if (ids.length > 0) {
+    await ctx.reporter.notify(
+      { key: 'order.lines-held', params: { code: job.order.code, skus: heldSkus(job) } },
+      { severity: 'warning' },
+    );
+  }
+  if (!ctx.cfg.job.dryRun) {
+    await ctx.store.updateOrder(job.order.code, { heldLines: ids });
+  }
+}
 
-  const linesForVendure = outstanding.map((l: OutstandingLine) => ({ orderLineId: l.orderLineId, quantity: l.quantity }));
+/**
+ * Parks orders matching the approval rules until an operator decides on
+ * Telegram. Orders without provider lines have nothing to approve.
+ */
+const approveStep: FulfillmentStep = {
+  name: 'approve',
+  async run(ctx, job) {
+    if (!ctx.cfg.approval.enabled || !job.shopOrders.some((shopOrder) => shopOrder.provider)) {
+      return;
+    }
+    const approval = (await ctx.store.getOrder(job.order.code))?.approval;
+    switch (approval?.status) {
+      case 'approved':
+        return;
+      case 'rejected':
+        return { status: 'skipped', reason: `Rejected by ${approval.decidedBy ?? 'an operator'}` };
+      case 'pending':
+        return { status: 'skipped', reason: `Awaiting approval since ${approval.requestedAt}` };
+    }
 
-  let printifyOrderId: string | undefined;
-  if (cfg.printify.enabled && printify) {
-    const missingSkus = outstanding
-      .map((l: OutstandingLine) => l.sku ?? l.variantName)
-      .filter((sku: string) => !cfg.printify.productMapping[sku]);
-    if (missingSkus.length > 0) {
-      await reporter.notify(
-        `Thiếu mapping Printify cho order ${order.code}`,
-        `SKUs thiếu: ${missingSkus.join(', ')}`
-      );
+    const reasons = await approvalReasons(ctx.cfg, ctx.vendure, job.order);
+    if (reasons.length === 0) {
       return;
     }
+    const described = reasons.map(describeApprovalReason);
+    if (ctx.cfg.job.dryRun) {
+      return { status: 'dry-run', reason: `Would request approval: ${described.join('; ')}` };
+    }
+    const asked = await ctx.telegram.ask(
+      { key: 'approval.requested', params: approvalRequest(ctx.cfg, ctx.channel, job.order, reasons) },
+      approvalButtons(job.order.code),
+    );
+    // Without the message nobody could release the order; fail so the next run asks again.
+    if (!asked) {
+      throw new Error('Could not post the approval request to Telegram');
+    }
+    await ctx.store.updateOrder(job.order.code, {
+      orderId: job.order.id,
+      approval: { status: 'pending', reasons: described, channel: ctx.channel.code, requestedAt: new Date().toISOString() },
+    });
+    return { status: 'skipped', reason: `Awaiting approval: ${described.join('; ')}` };
+  },
+};
 
-    const { first, last } = splitName(order.shippingAddress?.fullName);
-    const address = {
-      first_name: first,
-      last_name: last,
-      email: order.customer?.emailAddress || 'unknown@example.com',
-      phone: order.shippingAddress?.phoneNumber || '',
-      country: order.shippingAddress?.countryCode || 'US',
-      region: order.shippingAddress?.provinceCode || order.shippingAddress?.province || '',
-      address1: order.shippingAddress?.streetLine1 || '',
-      address2: order.shippingAddress?.streetLine2 || '',
-      city: order.shippingAddress?.city || '',
-      zip: order.shippingAddress?.postalCode || '',
-    };
+const createProviderOrderStep: FulfillmentStep = {
+  name: 'create-provider-order',
+  async run(ctx, job) {
+    if (ctx.cfg.job.dryRun) {
+      const providers = job.shopOrders.filter((shopOrder) => shopOrder.provider).map((shopOrder) => shopOrder.provider!.key);
+      const target = providers.length
+        ? `provider order(s) in ${providers.join(', ')} and ${job.shopOrders.length} Vendure fulfillment(s)`
+        : 'Vendure fulfillment';
+      const lineCount = job.shopOrders.reduce((count, shopOrder) => count + shopOrder.lines.length, 0);
+      const held = job.heldLines.length ? `, holding ${heldSkus(job).join(', ')}` : '';
+      return {
+        status: 'dry-run',
+        reason: `Would create ${target} for ${lineCount} line(s)${held}`,
+      };
+    }
+    // A previous run may have created the provider order and then failed on
+    // the Vendure side; resume from there instead of paying for a duplicate.
+    const record = await ctx.store.getOrder(job.order.code);
+    for (const shopOrder of job.shopOrders) {
+      const provider = shopOrder.provider;
+      if (!provider) {
+        continue;
+      }
+      const linkedId = Object.entries(record?.providerOrders ?? {}).find(
+        ([, link]) => link.provider === provider.name && link.accountId === provider.accountId,
+      )?.[0];
+      // Records written before shops existed only know a single Printify order.
+      const legacyId =
+        !record?.providerOrders && job.shopOrders.length === 1 && provider.name === 'printify'
+          ? record?.printifyOrderId
+          : undefined;
+      const existingId = linkedId ?? legacyId ?? (await provider.findOrderByExternalId(job.order.code))?.id;
+      if (existingId) {
+        shopOrder.providerOrderId = existingId;
+        shopOrder.providerOrderReused = true;
+        continue;
+      }
+      const created = await provider.createOrder({
+        externalId: job.order.code,
+        label: `Vendure order ${job.order.code}`,
+        lineItems: shopOrder.lineItems,
+        shippingMethod: shopOrder.shippingMethod ?? provider.shippingMethod ?? ctx.channel.shippingMethod,
+        address: buildShippingAddress(job.order),
+        metadata: {
+          vendureOrderId: job.order.id,
+          vendureOrderCode: job.order.code,
+        },
+      });
+      shopOrder.providerOrderId = created.id;
+      // Persist right away so a failure further on can still be resumed.
+      await ctx.store.updateOrder(job.order.code, {
+        orderId: job.order.id,
+        providerOrder: { id: created.id, provider: provider.name, accountId: provider.accountId },
+      });
+    }
+  },
+};
 
-    const line_items = buildPrintifyLineItems(order, cfg.printify.productMapping);
-    const input: CreatePrintifyOrderInput = {
-      external_id: order.code,
-      label: `Order ${order.code}`,
-      line_items,
-      shipping_method: cfg.printify.shippingMethod,
-      send_shipping_notification: false,
-      address_to: address,
-      metadata: {
-        vendure_order_id: order.id,
-      },
-    };
+const createVendureFulfillmentStep: FulfillmentStep = {
+  name: 'create-vendure-fulfillment',
+  async run(ctx, job) {
+    if (!ctx.canVendureFulfill) {
+      throw new Error('Vendure Admin API does not support fulfillment mutations');
+    }
+    for (const shopOrder of job.shopOrders) {
+      const result = await ctx.vendure.createFulfillment({
+        orderId: job.order.id,
+        lines: shopOrder.lines.map((line) => ({ orderLineId: line.orderLineId, quantity: line.quantity })),
+        handlerCode: ctx.cfg.vendure.fulfillmentHandlerCode,
+        method: shopOrder.provider && shopOrder.providerOrderId ? shopOrder.provider.name : 'Manual',
+      });
+      if (!result.success) {
+        throw new Error(`Vendure fulfillment failed: ${result.message}`);
+      }
+      shopOrder.fulfillmentId = result.fulfillmentId;
+      shopOrder.fulfillmentState = result.state;
+      if (shopOrder.providerOrderId) {
+        // Lets webhooks from this account find the fulfillment even if a later one fails.
+        await ctx.store.updateOrder(job.order.code, {
+          fulfillmentId: result.fulfillmentId,
+          providerOrder: { id: shopOrder.providerOrderId, fulfillmentId: result.fulfillmentId },
+        });
+      }
+    }
+  },
+};
 
-    await reporter.notify(`Create Printify draft order for ${order.code}`);
-    const resp = await printify.createOrder(input);
-    printifyOrderId = resp.id;
-    await reporter.notify(`Printify draft order created for ${order.code}`, `Printify ID: ${resp.id}`);
-  }
+export const FULFILLMENT_STEPS: FulfillmentStep[] = [
+  validateStep,
+  routeStep,
+  approveStep,
+  createProviderOrderStep,
+  createVendureFulfillmentStep,
+];
 
-  if (cfg.job.dryRun) {
-    await reporter.notify(`Dry-run: would create Vendure fulfillment for ${order.code}`);
-    return;
+export async function notifyOrderResult(ctx: FulfillmentContext, result: OrderFulfillmentResult): Promise<void> {
+  const subject = `${result.code} [${result.channel}]`;
+  switch (result.status) {
+    case 'fulfilled': {
+      const fulfillments = result.shopOrders.map((shopOrder) => ({
+        id: shopOrder.fulfillmentId,
+        state: shopOrder.fulfillmentState,
+        provider: shopOrder.provider,
+        providerOrderId: shopOrder.providerOrderId,
+        reused: shopOrder.providerOrderReused,
+      }));
+      const providers = result.shopOrders
+        .filter((shopOrder) => shopOrder.providerOrderId)
+        .map((shopOrder) => `${shopOrder.provider} ${shopOrder.providerOrderId}`);
+      const params = { code: result.code, fulfillments, heldSkus: result.heldSkus ?? [] };
+      await ctx.reporter.notify({ key: 'order.fulfilled', params }, {
+        entry: {
+          outcome: 'success',
+          subject,
+          detail: [...providers, ...(result.heldSkus?.length ? [`held ${result.heldSkus.join(', ')}`] : [])].join(', ') || undefined,
+        },
+      });
+      return;
+    }
+    case 'failed':
+      await ctx.reporter.notify({ key: 'order.failed', params: { code: result.code, step: result.step, reason: result.reason } }, {
+        severity: 'warning',
+        entry: { outcome: 'failure', subject, detail: `[${result.step}] ${result.reason}` },
+      });
+      return;
+    default:
+      // Skipped and dry-run orders are only reported in the run summary (and the digest).
+      ctx.reporter.record({ outcome: 'skipped', subject, detail: result.reason });
+      return;
   }
+}
 
-  await reporter.notify(`Create Vendure fulfillment for ${order.code}`);
-  const created = await vendure.createFulfillment({
+export async function processOrder(
+  ctx: FulfillmentContext,
+  order: OrderSummary,
+  steps: FulfillmentStep[] = FULFILLMENT_STEPS,
+): Promise<OrderFulfillmentResult> {
+  const job: OrderJob = { order, outstanding: [], shopOrders: [], heldLines: [] };
+  const toResult = (
+    status: OrderFulfillmentStatus,
+    extra: Pick<OrderFulfillmentResult, 'step' | 'reason'> = {},
+  ): OrderFulfillmentResult => ({
+    channel: ctx.channel.code,
     orderId: order.id,
-    lines: linesForVendure,
-    handlerCode: cfg.vendure.fulfillmentHandlerCode,
-    method: printifyOrderId ? 'Printify' : 'Manual',
-    trackingCode: undefined,
+    code: order.code,
+    status,
+    ...extra,
+    shopOrders: job.shopOrders.map((shopOrder) => ({
+      provider: shopOrder.provider?.key,
+      providerOrderId: shopOrder.providerOrderId,
+      providerOrderReused: shopOrder.providerOrderReused,
+      fulfillmentId: shopOrder.fulfillmentId,
+      fulfillmentState: shopOrder.fulfillmentState,
+    })),
+    heldSkus: job.heldLines.length ? heldSkus(job) : undefined,
   });
 
-  if (!created.success) {
-    throw new Error(`Vendure fulfillment failed: ${created.message}`);
+  for (const step of steps) {
+    try {
+      const outcome = await step.run(ctx, job);
+      if (outcome) {
+        return toResult(outcome.status, { step: step.name, reason: outcome.reason });
+      }
+    } catch (error) {
+      return toResult('failed', { step: step.name, reason: describeError(error) });
+    }
   }
-
-  await reporter.notify(
-    `Vendure fulfillment created for ${order.code}`,
-    `Fulfillment ID: ${created.fulfillmentId}, state: ${created.state}`
-  );
+  return toResult('fulfilled');
 }
 
-export async function runFulfillOrders(): Promise<void> {
-  const cfg = loadConfig();
-  const reporter = new TelegramReporter({
-    enabled: cfg.telegram.enabled,
-    botToken: cfg.telegram.botToken,
-    chatId: cfg.telegram.chatId,
-    dryRun: cfg.job.dryRun,
+export async function recordOrderResult(store: StateStore, result: OrderFulfillmentResult): Promise<void> {
+  for (const shopOrder of result.shopOrders) {
+    if (shopOrder.fulfillmentId) {
+      await store.updateOrder(result.code, { fulfillmentId: shopOrder.fulfillmentId });
+    }
+  }
+  await store.updateOrder(result.code, {
+    orderId: result.orderId,
+    attempt: {
+      status: result.status,
+      step: result.step,
+      error: result.status === 'failed' ? result.reason : undefined,
+    },
   });
+}
+
+/** Counts of a channel run, listing the orders an operator may need to look at. */
+export function summarizeRun(result: Omit<FulfillmentRunResult, 'channels'>, channel: string): NotificationEvent {
+  const orders = result.orders
+    .filter((order) => order.status === 'failed' || order.status === 'dry-run' || order.step === 'approve')
+    .map((order) => ({ code: order.code, reason: order.reason }));
+  return {
+    key: 'channel.completed',
+    params: { channel, dryRun: result.dryRun, fulfilled: result.fulfilled, skipped: result.skipped, failed: result.failed, orders },
+  };
+}
+
+export function createFulfillmentContext(
+  cfg: AutomationConfig,
+  channel: ChannelConfig = cfg.channels[0],
+): Omit<FulfillmentContext, 'canVendureFulfill'> {
+  const telegram = createTelegramReporter(cfg);
+  const reporter = createNotificationHub(cfg, cfg.job.dryRun, telegram);
 
   const vendure = new VendureClient(cfg.vendure.apiUrl);
-  await vendure.login(cfg.vendure.username, cfg.vendure.password);
+  vendure.setChannelToken(channel.token);
+
+  const store = createStateStore(cfg.state);
+
+  const providers = cfg.printify.enabled ? createProviderRegistry(cfg, cfg.printify.mockApi || cfg.job.dryRun) : null;
+
+  // One source per run, so each SKU's custom fields are read at most once per channel.
+  const mappings = createVendureMappingSource(cfg, vendure);
 
-  const printify = cfg.printify.enabled
-    ? new PrintifyClient({ apiToken: cfg.printify.apiToken, shopId: cfg.printify.shopId, baseUrl: cfg.printify.apiBaseUrl, mock: cfg.printify.mockApi })
-    : null;
+  return { cfg, channel, vendure, providers, mappings, reporter, telegram, store };
+}
+
+async function runChannel(ctx: FulfillmentContext, result: FulfillmentRunResult): Promise<ChannelRunSummary> {
+  const summary: ChannelRunSummary = { code: ctx.channel.code, fulfilled: 0, skipped: 0, failed: 0 };
+  const channelOrders: OrderFulfillmentResult[] = [];
+
+  const orders = await selectOrders(ctx);
+  for (const order of orders) {
+    const orderResult = await processOrder(ctx, order);
+    channelOrders.push(orderResult);
+    result.orders.push(orderResult);
+    if (orderResult.status === 'fulfilled') summary.fulfilled += 1;
+    else if (orderResult.status === 'failed') summary.failed += 1;
+    else summary.skipped += 1;
+    if (!ctx.cfg.job.dryRun) {
+      await recordOrderResult(ctx.store, orderResult);
+    }
+    await notifyOrderResult(ctx, orderResult);
+  }
+
+  // A digest already lists every order; the run summary has the per-channel counts.
+  await ctx.reporter.notify(summarizeRun({ ...summary, dryRun: ctx.cfg.job.dryRun, orders: channelOrders }, ctx.channel.code), {
+    digest: false,
+  });
+  return summary;
+}
+
+/**
+ * Runs the Vendure → Printify fulfillment pipeline once, channel by channel.
+ * Shared by the HTTP route and any other entrypoint so both follow exactly
+ * the same steps.
+ */
+export async function runFulfillOrders(cfg: AutomationConfig = loadConfig()): Promise<FulfillmentRunResult> {
+  const base = createFulfillmentContext(cfg);
+  const { reporter, vendure, store } = base;
+
+  // Paused runs stay silent; the operator who paused already knows.
+  const control = await store.getControl();
+  if (control.paused) {
+    console.log(`[automation] Fulfillment job paused since ${control.paused.at}${control.paused.by ? ` by ${control.paused.by}` : ''}`);
+    return { dryRun: cfg.job.dryRun, fulfilled: 0, skipped: 0, failed: 0, channels: [], orders: [], paused: true };
+  }
 
-  await reporter.notify('Bắt đầu chạy xử lý giao hàng');
+  await reporter.beginRun({ key: 'fulfillment.started', params: {} });
   try {
-    const states: Array<'PaymentSettled' | 'PartiallyFulfilled'> = ['PaymentSettled', 'PartiallyFulfilled'];
-    const orders = await vendure.fetchOrders(states, cfg.vendure.maxOrdersPerRun);
+    await vendure.authenticate(cfg.vendure);
 
-    for (const order of orders) {
+    const canVendureFulfill = await vendure.supportsCreateFulfillment();
+    if (!canVendureFulfill) {
+      await reporter.notify({ key: 'fulfillment.vendure-unsupported', params: {} }, { severity: 'critical' });
+    }
+
+    const result: FulfillmentRunResult = {
+      dryRun: cfg.job.dryRun,
+      fulfilled: 0,
+      skipped: 0,
+      failed: 0,
+      channels: [],
+      orders: [],
+    };
+
+    for (const channel of cfg.channels) {
+      vendure.setChannelToken(channel.token);
+      const ctx: FulfillmentContext = { ...base, channel, canVendureFulfill };
       try {
-        await fulfillOrder(vendure, printify, reporter, cfg, order);
-      } catch (err) {
-        await reporter.notify(
-          `Lỗi khi xử lý đơn hàng ${order.code}`,
-          (err as Error).message
-        );
+        const summary = await runChannel(ctx, result);
+        result.channels.push(summary);
+        result.fulfilled += summary.fulfilled;
+        result.skipped += summary.skipped;
+        result.failed += summary.failed;
+      } catch (error) {
+        // One broken channel must not hold back the others.
+        const message = describeError(error);
+        result.channels.push({ code: channel.code, fulfilled: 0, skipped: 0, failed: 0, error: message });
+        await reporter.notify({ key: 'channel.failed', params: { channel: channel.code, error: message } }, { severity: 'critical' });
       }
     }
 
-    await reporter.notify('Hoàn thành chạy xử lý giao hàng');
-  } catch (err) {
-    await reporter.notify('Chạy xử lý giao hàng thất bại', (err as Error).message);
-    throw err;
+    const completed: NotificationEvent = {
+      key: 'fulfillment.completed',
+      params: { dryRun: cfg.job.dryRun, channels: result.channels },
+    };
+    await reporter.endRun(completed);
+    await store.updateControl({
+      lastRun: {
+        dryRun: result.dryRun,
+        fulfilled: result.fulfilled,
+        skipped: result.skipped,
+        failed: result.failed,
+        // Shown by the English `/status` bot command.
+        summary: renderMessage(completed, 'en').details ?? '',
+      },
+    });
+    return result;
+  } catch (error) {
+    await reporter.endRun({ key: 'fulfillment.failed', params: { error: describeError(error) } }, 'critical');
+    throw error;
+  }
+}
+
+/**
+ * Runs the pipeline for a single order, looked up by code in each channel in
+ * turn. Used by operator commands, so it ignores the pause switch but still
+ * only touches orders in one of FULFILLMENT_ORDER_STATES. Null when no
+ * channel knows the code.
+ */
+export async function runFulfillOrder(cfg: AutomationConfig, code: string): Promise<OrderFulfillmentResult | null> {
+  const base = createFulfillmentContext(cfg);
+  const { vendure, store } = base;
+  await vendure.authenticate(cfg.vendure);
+  const canVendureFulfill = await vendure.supportsCreateFulfillment();
+
+  for (const channel of cfg.channels) {
+    vendure.setChannelToken(channel.token);
+    const order = await vendure.fetchOrderByCode(code);
+    if (!order) {
+      continue;
+    }
+    if (!cfg.vendure.orderStates.includes(order.state)) {
+      return {
+        channel: channel.code,
+        orderId: order.id,
+        code: order.code,
+        status: 'skipped',
+        step: 'select',
+        reason: `Order is ${order.state}; only ${cfg.vendure.orderStates.join(', ')} are fulfilled`,
+        shopOrders: [],
+      };
+    }
+    const ctx: FulfillmentContext = { ...base, channel, canVendureFulfill };
+    const result = await processOrder(ctx, order);
+    if (!cfg.job.dryRun) {
+      await recordOrderResult(store, result);
+    }
+    await notifyOrderResult(ctx, result);
+    return result;
   }
-}
\ No newline at end of file
+  return null;
+}
@@ -0,0 +1,64 @@
+import { AutomationConfig, loadConfig } from './config.js';
+import {
+  CatalogVariant,
+  MappingProposal,
+  flattenPrintifyProduct,
+  formatMappingCsv,
+  proposeMapping,
+} from './lib/mapping-generator.js';
+import { createShopRegistry } from './lib/printify-shops.js';
+import { VariantListItem, VendureClient } from './lib/vendure-client.js';
+
+/** Upper bound on product pages read per shop (50 products each). */
+const MAX_PRODUCT_PAGES = 100;
+
+export interface GenerateMappingResult extends MappingProposal {
+  /** Proposed mapping in the PRINTIFY_PRODUCT_MAPPING_FILE CSV format. */
+  csv: string;
+  vendureVariants: number;
+  printifyVariants: number;
+}
+
+/**
+ * Lists the Vendure variants of every configured channel and the products of
+ * every Printify shop, and proposes a SKU mapping. Nothing is written to
+ * Vendure or Printify; the caller decides what to do with the proposal.
+ */
+export async function runGenerateMapping(
+  cfg: AutomationConfig = loadConfig({ requireMapping: false }),
+): Promise<GenerateMappingResult> {
+  const vendure = new VendureClient(cfg.vendure.apiUrl);
+  await vendure.authenticate(cfg.vendure);
+
+  // Channels usually share variants; keep each one once.
+  const variants = new Map<string, VariantListItem>();
+  for (const channel of cfg.channels) {
+    vendure.setChannelToken(channel.token);
+    for (const variant of await vendure.fetchAllVariants()) {
+      variants.set(variant.id, variant);
+    }
+  }
+
+  const shops = createShopRegistry(cfg);
+  const catalog: CatalogVariant[] = [];
+  for (const shop of shops.list()) {
+    const printify = shops.client(shop);
+    for (let page = 1; page <= MAX_PRODUCT_PAGES; page++) {
+      const batch = await printify.listProducts(page);
+      for (const product of batch.data) {
+        catalog.push(...flattenPrintifyProduct(shop.key, product));
+      }
+      if (batch.current_page >= batch.last_page) {
+        break;
+      }
+    }
+  }
+
+  const proposal = proposeMapping([...variants.values()], catalog);
+  return {
+    ...proposal,
+    csv: formatMappingCsv(proposal.rows, shops.list().length > 1),
+    vendureVariants: variants.size,
+    printifyVariants: catalog.length,
+  };
+}
@@ -0,0 +1,119 @@
+export type FulfillmentState = 'Created' | 'Pending' | 'Fulfilled' | 'Cancelled' | 'Shipped' | 'Delivered';
+
+/**
+ * What a provider event asks us to do: move the fulfillment forward, or stop
+ * it because the provider cancelled the order or could not produce it.
+ */
+export type WebhookAction =
+  | { kind: 'transition'; targetState: FulfillmentState }
+  | { kind: 'cancelled' }
+  /** Recoverable problem the provider flagged; operators are alerted, Vendure is left alone. */
+  | { kind: 'issue' };
+
+export interface ProviderLineItem {
+  /** Existing product; unset when the provider creates one from `blueprintId` and `printAreas`. */
+  productId?: string | number;
+  variantId: number;
+  blueprintId?: number;
+  printProviderId?: number;
+  /** Print area position → image URL. */
+  printAreas?: Record<string, string>;
+  quantity: number;
+  metadata?: Record<string, unknown> | null;
+}
+
+export interface ProviderAddress {
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone?: string;
+  country: string;
+  region?: string;
+  address1: string;
+  address2?: string;
+  city: string;
+  zip: string;
+}
+
+export interface ProviderOrderInput {
+  /** Vendure order code; providers use it to find an order again after a retry. */
+  externalId: string;
+  label?: string;
+  lineItems: ProviderLineItem[];
+  address: ProviderAddress;
+  shippingMethod?: number;
+  metadata?: Record<string, unknown>;
+}
+
+export interface ProviderOrder {
+  id: string;
+  /** Provider-specific status, kept for logs and alerts. */
+  status: string;
+  externalId?: string;
+  cancelled: boolean;
+  /** Whether the provider still accepts a cancel request (i.e. production has not started). */
+  cancellable: boolean;
+}
+
+/**
+ * One parcel of a provider order. `lines` tells us which Vendure lines travel
+ * in it; without it fulfillments cannot be split per parcel.
+ */
+export interface ProviderShipment {
+  id?: string;
+  carrier?: string;
+  trackingNumber?: string;
+  url?: string;
+  deliveredAt?: string | null;
+  lines?: Array<{
+    vendureOrderLineId?: string;
+    variantId?: number;
+    quantity?: number;
+  }>;
+}
+
+/** A provider webhook payload translated into the terms the Vendure side understands. */
+export interface ProviderWebhookEvent {
+  /** Stable across retries of the same delivery; used for deduplication. */
+  id: string;
+  /** The provider's own event name, for logs and order notes. */
+  event: string;
+  action: WebhookAction | null;
+  /** Provider order ID. */
+  orderId?: string;
+  /** Vendure order code. */
+  externalId?: string;
+  /** Provider account (e.g. Printify shop) the order belongs to. */
+  accountId?: string;
+  reason?: string;
+  shipments: ProviderShipment[];
+}
+
+/**
+ * A print-on-demand provider account the pipeline can send orders to. SKU
+ * mappings choose the provider per entry; everything downstream of the route
+ * step only talks to this interface.
+ */
+export interface FulfillmentProvider {
+  /** Provider name as used in SKU mappings and webhook URLs, e.g. `printify`. */
+  readonly name: string;
+  /** Account within the provider (the Printify shop ID). */
+  readonly accountId: string;
+  /** Registry key, `<name>:<account key>`. */
+  readonly key: string;
+  /** Shipping method used when neither the mapping nor the channel sets one. */
+  readonly shippingMethod?: number;
+  /** True when the account has a webhook secret, i.e. `verifyWebhook` actually checks something. */
+  readonly verifiesWebhooks: boolean;
+
+  createOrder(input: ProviderOrderInput): Promise<ProviderOrder>;
+  getOrder(orderId: string): Promise<ProviderOrder>;
+  /** Looks up an order created earlier for the same Vendure order; cancelled orders are ignored. */
+  findOrderByExternalId(externalId: string): Promise<ProviderOrder | null>;
+  cancelOrder(orderId: string): Promise<ProviderOrder>;
+
+  /** Checks the webhook signature against this account's secret. */
+  verifyWebhook(rawBody: string, headers: Record<string, string | string[]>): boolean;
+  /** Translates a webhook payload; null when it is not an order event at all. */
+  parseWebhook(payload: unknown): ProviderWebhookEvent | null;
+}
@@ -0,0 +1,34 @@
+export type RequestLike = {
+  method?: string;
+  query?: Record<string, string | string[]>;
+  headers: Record<string, string | string[]>;
+  body?: unknown;
+};
+
+export type ResponseLike = {
+  status: (code: number) => ResponseLike;
+  json: (body: unknown) => void;
+  setHeader: (name: string, value: string) => void;
+};
+
+export function getHeader(headers: Record<string, string | string[]>, name: string): string | undefined {
+  const value = headers[name] ?? headers[name.toLowerCase()];
+  if (Array.isArray(value)) {
+    return value[0];
+  }
+  return value;
+}
+
+/**
+ * Checks the shared job secret, provided either as `?secret=` or the
+ * `x-automation-secret` header. Always passes when no secret is configured.
+ */
+export function validateSecret(req: RequestLike, expected?: string): boolean {
+  if (!expected) {
+    return true;
+  }
+  const provided =
+    (typeof req.query?.secret === 'string' ? req.query.secret : undefined) ||
+    (typeof req.headers['x-automation-secret'] === 'string' ? req.headers['x-automation-secret'] : undefined);
+  return provided === expected;
+}
@@ -0,0 +1,186 @@
+import { PrintifyProduct } from './printify-client.js';
+import { VariantListItem } from './vendure-client.js';
+
+/** One sellable Printify variant, flattened out of its product. */
+export interface CatalogVariant {
+  /** Key of the Printify shop the product belongs to. */
+  shop: string;
+  productId: string;
+  productTitle: string;
+  variantId: number;
+  sku: string | null;
+  title: string;
+  optionValues: string[];
+}
+
+/** How a proposed row was matched; `title-options` rows deserve a second look. */
+export type MatchBasis = 'sku' | 'title-options';
+
+export interface ProposedMappingRow {
+  sku: string;
+  productId: string;
+  variantId: number;
+  shop: string;
+  basis: MatchBasis;
+  vendureVariantId: string;
+  vendureName: string;
+  printifyTitle: string;
+}
+
+export interface UnmatchedVendureVariant {
+  id: string;
+  sku: string | null;
+  name: string;
+  reason: string;
+}
+
+export interface UnmatchedPrintifyVariant {
+  shop: string;
+  productId: string;
+  variantId: number;
+  sku: string | null;
+  title: string;
+  reason: string;
+}
+
+export interface MappingProposal {
+  rows: ProposedMappingRow[];
+  unmatchedVendure: UnmatchedVendureVariant[];
+  unmatchedPrintify: UnmatchedPrintifyVariant[];
+}
+
+/** Lower-cased, accent-free, punctuation collapsed to single spaces. */
+function normalize(value: string | null | undefined): string {
+  return (value ?? '')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function sameValues(a: string[], b: string[]): boolean {
+  const left = a.map(normalize).sort();
+  const right = b.map(normalize).sort();
+  return left.length === right.length && left.every((value, index) => value === right[index]);
+}
+
+function variantKey(variant: CatalogVariant): string {
+  return `${variant.shop}:${variant.productId}:${variant.variantId}`;
+}
+
+/**
+ * Enabled variants of a Printify product. Option values come from the
+ * product's option table, falling back to the "Black / S" style title.
+ */
+export function flattenPrintifyProduct(shop: string, product: PrintifyProduct): CatalogVariant[] {
+  const valueTitles = new Map<number, string>();
+  for (const option of product.options ?? []) {
+    for (const value of option.values) {
+      valueTitles.set(value.id, value.title);
+    }
+  }
+  return product.variants
+    .filter((variant) => variant.is_enabled !== false)
+    .map((variant) => {
+      const fromOptions = (variant.options ?? []).map((id) => valueTitles.get(id)).filter((title): title is string => !!title);
+      return {
+        shop,
+        productId: product.id,
+        productTitle: product.title,
+        variantId: variant.id,
+        sku: variant.sku ?? null,
+        title: variant.title,
+        optionValues: fromOptions.length > 0 ? fromOptions : variant.title.split(' / ').map((part) => part.trim()),
+      };
+    });
+}
+
+/**
+ * Matches Vendure variants to Printify variants: by SKU first, then by product
+ * title plus option values. Ambiguous candidates are never guessed; they end
+ * up in the unmatched lists with the reason.
+ */
+export function proposeMapping(vendure: VariantListItem[], printify: CatalogVariant[]): MappingProposal {
+  const rows: ProposedMappingRow[] = [];
+  const unmatchedVendure: UnmatchedVendureVariant[] = [];
+  const claimed = new Map<string, string>();
+
+  const bySku = new Map<string, CatalogVariant[]>();
+  for (const variant of printify) {
+    const sku = normalize(variant.sku);
+    if (sku) {
+      bySku.set(sku, [...(bySku.get(sku) ?? []), variant]);
+    }
+  }
+
+  for (const variant of vendure) {
+    if (!variant.sku) {
+      unmatchedVendure.push({ id: variant.id, sku: null, name: variant.name, reason: 'Variant has no SKU' });
+      continue;
+    }
+    let basis: MatchBasis = 'sku';
+    let candidates = bySku.get(normalize(variant.sku)) ?? [];
+    if (candidates.length === 0) {
+      basis = 'title-options';
+      const productTitle = normalize(variant.product.name);
+      candidates = printify.filter(
+        (candidate) =>
+          normalize(candidate.productTitle) === productTitle &&
+          sameValues(candidate.optionValues, variant.options.map((option) => option.name)),
+      );
+    }
+    const open = candidates.filter((candidate) => !claimed.has(variantKey(candidate)));
+    if (open.length !== 1) {
+      const reason =
+        candidates.length === 0
+          ? 'No Printify variant with the same SKU or product title and options'
+          : open.length === 0
+            ? `Printify variant already matched to ${claimed.get(variantKey(candidates[0]))}`
+            : `Ambiguous: ${open.length} Printify variants match by ${basis === 'sku' ? 'SKU' : 'title and options'}`;
+      unmatchedVendure.push({ id: variant.id, sku: variant.sku, name: variant.name, reason });
+      continue;
+    }
+    const match = open[0];
+    claimed.set(variantKey(match), variant.sku);
+    rows.push({
+      sku: variant.sku,
+      productId: match.productId,
+      variantId: match.variantId,
+      shop: match.shop,
+      basis,
+      vendureVariantId: variant.id,
+      vendureName: variant.name,
+      printifyTitle: `${match.productTitle} – ${match.title}`,
+    });
+  }
+
+  const unmatchedPrintify = printify
+    .filter((variant) => !claimed.has(variantKey(variant)))
+    .map((variant) => ({
+      shop: variant.shop,
+      productId: variant.productId,
+      variantId: variant.variantId,
+      sku: variant.sku,
+      title: `${variant.productTitle} – ${variant.title}`,
+      reason: 'No Vendure variant matched',
+    }));
+
+  return { rows, unmatchedVendure, unmatchedPrintify };
+}
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Renders rows in the mapping file format; the shop column only when more than one shop is involved. */
+export function formatMappingCsv(rows: ProposedMappingRow[], withShop: boolean): string {
+  const header = withShop ? ['sku', 'productId', 'variantId', 'shop'] : ['sku', 'productId', 'variantId'];
+  const lines = rows.map((row) =>
+    (withShop ? [row.sku, row.productId, row.variantId, row.shop] : [row.sku, row.productId, row.variantId])
+      .map(csvField)
+      .join(','),
+  );
+  return [header.join(','), ...lines].join('\n') + '\n';
+}
@@ -0,0 +1,575 @@
+export type Locale = 'vi' | 'en';
+
+export const LOCALES: Locale[] = ['vi', 'en'];
+
+export type ApprovalReason =
+  | { kind: 'total'; total: string; threshold: string }
+  | { kind: 'first-order'; customer: string };
+
+interface RunCounts {
+  dryRun: boolean;
+}
+
+/** Order codes with the reason they are listed, e.g. failed or dry-run orders in a summary. */
+type OrderNotes = Array<{ code: string; reason?: string }>;
+
+/** Parameters of every notification, by message key. */
+export interface MessageParams {
+  'fulfillment.started': {};
+  'fulfillment.completed': RunCounts & {
+    channels: Array<{ code: string; fulfilled: number; skipped: number; failed: number; error?: string }>;
+  };
+  'fulfillment.failed': { error: string };
+  'fulfillment.vendure-unsupported': {};
+  'channel.completed': RunCounts & { channel: string; fulfilled: number; skipped: number; failed: number; orders: OrderNotes };
+  'channel.failed': { channel: string; error: string };
+  'order.fulfilled': {
+    code: string;
+    fulfillments: Array<{ id?: string; state?: string; provider?: string; providerOrderId?: string; reused?: boolean }>;
+    heldSkus: string[];
+  };
+  'order.failed': { code: string; step?: string; reason?: string };
+  'order.lines-held': { code: string; skus: string[] };
+  'approval.requested': {
+    code: string;
+    channel: string;
+    total: string;
+    customer?: string;
+    address: string;
+    lines: string[];
+    reasons: ApprovalReason[];
+    url?: string;
+  };
+  'approval.approved': { code: string; by: string; at: string };
+  'approval.rejected': { code: string; by: string; at: string };
+  'submit.started': { holdHours: number };
+  'submit.skipped': { code: string; reason?: string };
+  'submit.submitted': { code: string; shop: string; printifyOrderId: string };
+  'submit.failed': { code: string; reason: string };
+  'submit.completed': RunCounts & { submitted: number; held: number; skipped: number; failed: number; orders: OrderNotes };
+  'submit.run-failed': { error: string };
+  'cancel.started': {};
+  'cancel.too-late': { code: string; provider: string; providerName: string; providerOrderId: string; status: string };
+  'cancel.cancelled': { code: string; provider: string; providerOrderId: string };
+  'cancel.failed': { code: string; reason?: string };
+  'cancel.completed': RunCounts & { cancelled: number; tooLate: number; failed: number };
+  'cancel.run-failed': { error: string };
+  'mapping.started': {};
+  'mapping.completed': {
+    rows: number;
+    errors: number;
+    warnings: number;
+    printifyChecked: boolean;
+    issues: Array<{ severity: 'error' | 'warning'; channel: string; sku: string; message: string }>;
+  };
+  'mapping.failed': { error: string };
+  'control.paused': { by: string };
+  'control.resumed': { by: string };
+  'webhook.stopped': { provider: string; code: string; fulfillmentId?: string; reason?: string };
+  'webhook.issue': { provider: string; code: string; reason?: string };
+  'webhook.order-not-found': { provider: string; code: string };
+  'webhook.rejected': { provider: string };
+  'webhook.processed': { provider: string; bypass: boolean; code: string; fulfillmentIds: string[]; state: string };
+  'webhook.failed': { provider: string; error: string; deadLetterId: string };
+  'webhook.replayed': { replayed: number; resolved: number; failed: number; errors: Array<{ id: string; error: string }> };
+}
+
+export type MessageKey = keyof MessageParams;
+
+/** A notification before rendering: which message, with what values. */
+export type NotificationEvent = { [K in MessageKey]: { key: K; params: MessageParams[K] } }[MessageKey];
+
+interface MessageTemplate<P> {
+  title: (params: P) => string;
+  details?: (params: P) => string | undefined;
+}
+
+type Catalog = { [K in MessageKey]: MessageTemplate<MessageParams[K]> };
+
+/** Replies of the Telegram bot commands and approval buttons. */
+interface BotStrings {
+  usage: string[];
+  usageOf: (command: string) => string;
+  failed: (command: string, error: string) => string;
+  running: string;
+  pausedSince: (at: string, by?: string) => string;
+  lastRun: (run: { at: string; dryRun: boolean; fulfilled: number; skipped: number; failed: number }) => string;
+  noRun: string;
+  deadLetters: (count: number) => string;
+  order: (code: string, channel: string, state: string) => string;
+  orderLine: (sku: string, quantity: number, fulfilled: number) => string;
+  fulfillment: (id: string, state: string, trackingCode?: string | null) => string;
+  orderNotFound: (code: string) => string;
+  providerOrder: (provider: string, id: string, status: string) => string;
+  providerStatusUnknown: string;
+  lookupFailed: (error: string) => string;
+  lastAttempt: (attempt: { at: string; status: string; step?: string; error?: string }) => string;
+  approval: (status: string, reasons: string[], by?: string) => string;
+  heldLines: (count: number) => string;
+  result: (result: { code: string; channel: string; status: string; step?: string }) => string;
+  resultFulfillment: (provider: string | undefined, providerOrderId?: string, fulfillmentId?: string, state?: string) => string;
+  held: (skus: string[]) => string;
+  paused: string;
+  resumed: string;
+  notAllowed: string;
+  notAwaiting: (code: string, status?: string) => string;
+  approved: string;
+  rejected: string;
+  editAddressToast: string;
+  editAddress: (code: string, url?: string) => string;
+  failedToast: string;
+  decisionFailed: (action: string, code: string, error: string) => string;
+}
+
+/** Notes the automation adds to Vendure orders. */
+interface NoteStrings {
+  approved: (by: string) => string;
+  rejected: (by: string) => string;
+  addressRequested: (by: string) => string;
+  providerCancelled: (p: { provider: string; providerOrderId: string; event: string; reason?: string }) => string;
+}
+
+interface LocaleStrings {
+  automation: string;
+  dryRun: string;
+  digest: { success: string; failure: string; skipped: string; other: string };
+  more: (count: number) => string;
+  bot: BotStrings;
+  notes: NoteStrings;
+  messages: Catalog;
+}
+
+/** Issues listed in the mapping validation summary. */
+const MAX_SUMMARY_ISSUES = 20;
+
+/** The icon belongs to the event, whatever the language. */
+export const MESSAGE_ICONS: Record<MessageKey, string> = {
+  'fulfillment.started': '🚀',
+  'fulfillment.completed': '✅',
+  'fulfillment.failed': '❌',
+  'fulfillment.vendure-unsupported': '⚠️',
+  'channel.completed': '✅',
+  'channel.failed': '❌',
+  'order.fulfilled': '📦',
+  'order.failed': '❌',
+  'order.lines-held': '⏸️',
+  'approval.requested': '❓',
+  'approval.approved': '✅',
+  'approval.rejected': '🚫',
+  'submit.started': '🚀',
+  'submit.skipped': '⏭️',
+  'submit.submitted': '🏭',
+  'submit.failed': '❌',
+  'submit.completed': '✅',
+  'submit.run-failed': '❌',
+  'cancel.started': '🚀',
+  'cancel.too-late': '⚠️',
+  'cancel.cancelled': '🛑',
+  'cancel.failed': '❌',
+  'cancel.completed': '✅',
+  'cancel.run-failed': '❌',
+  'mapping.started': '🚀',
+  'mapping.completed': '🔎',
+  'mapping.failed': '❌',
+  'control.paused': '⏸️',
+  'control.resumed': '▶️',
+  'webhook.stopped': '🛑',
+  'webhook.issue': '⚠️',
+  'webhook.order-not-found': '❔',
+  'webhook.rejected': '🔒',
+  'webhook.processed': '🔄',
+  'webhook.failed': '❌',
+  'webhook.replayed': '🔁',
+};
+
+const lines = (...parts: Array<string | false | undefined>) => parts.filter(Boolean).join('\n');
+const bullets = (orders: OrderNotes) => orders.map((order) => `• ${order.code}: ${order.reason ?? ''}`);
+
+function issueLines(params: MessageParams['mapping.completed'], more: (count: number) => string): string[] {
+  const listed = params.issues
+    .slice(0, MAX_SUMMARY_ISSUES)
+    .map((issue) => `${issue.severity === 'error' ? '✖' : '⚠'} [${issue.channel}] ${issue.sku}: ${issue.message}`);
+  return params.issues.length > MAX_SUMMARY_ISSUES ? [...listed, more(params.issues.length - MAX_SUMMARY_ISSUES)] : listed;
+}
+
+const en: LocaleStrings = {
+  automation: '🤖 Automation',
+  dryRun: '🧪 Dry run',
+  digest: { success: 'Succeeded', failure: 'Failed', skipped: 'Skipped', other: 'Other' },
+  more: (count) => `…and ${count} more`,
+  bot: {
+    usage: [
+      '/status – paused flag and last run summary',
+      '/order CODE – Vendure and provider state of an order',
+      '/retry CODE – run the fulfillment pipeline for one order',
+      '/dryrun CODE – same, without creating anything',
+      '/pause – stop the scheduled fulfillment and auto-submit runs',
+      '/resume – start them again',
+    ],
+    usageOf: (command) => `Usage: /${command} CODE`,
+    failed: (command, error) => `/${command} failed: ${error}`,
+    running: '▶️ Running',
+    pausedSince: (at, by) => `⏸ Paused since ${at}${by ? ` by ${by}` : ''}`,
+    lastRun: (run) =>
+      `Last run ${run.at}${run.dryRun ? ' (dry-run)' : ''}: ${run.fulfilled} fulfilled, ${run.skipped} skipped, ${run.failed} failed`,
+    noRun: 'No run recorded yet.',
+    deadLetters: (count) => `Dead-lettered webhooks: ${count}`,
+    order: (code, channel, state) => `Order ${code} [${channel}]: ${state}`,
+    orderLine: (sku, quantity, fulfilled) => `• ${sku} × ${quantity} (fulfilled ${fulfilled})`,
+    fulfillment: (id, state, trackingCode) => `Fulfillment ${id}: ${state}${trackingCode ? ` – ${trackingCode}` : ''}`,
+    orderNotFound: (code) => `Order ${code} not found in any channel.`,
+    providerOrder: (provider, id, status) => `${provider} ${id}: ${status}`,
+    providerStatusUnknown: 'unknown',
+    lookupFailed: (error) => `lookup failed: ${error}`,
+    lastAttempt: (a) => `Last attempt ${a.at}: ${a.status}${a.step ? ` at ${a.step}` : ''}${a.error ? ` – ${a.error}` : ''}`,
+    approval: (status, reasons, by) => `Approval: ${status}${by ? ` by ${by}` : ''} (${reasons.join('; ')})`,
+    heldLines: (count) => `Held lines: ${count}`,
+    result: (r) => `Order ${r.code} [${r.channel}]: ${r.status}${r.step ? ` at ${r.step}` : ''}`,
+    resultFulfillment: (provider, providerOrderId, fulfillmentId, state) =>
+      `• ${provider ? `${provider} ${providerOrderId ?? '–'}` : 'manual'} → fulfillment ${fulfillmentId ?? '–'} (${state ?? 'not created'})`,
+    held: (skus) => `Held: ${skus.join(', ')}`,
+    paused: 'Paused: scheduled fulfillment and auto-submit runs will do nothing until /resume.',
+    resumed: 'Resumed.',
+    notAllowed: 'Not allowed',
+    notAwaiting: (code, status) => `Order ${code} is ${status ?? 'not awaiting approval'}`,
+    approved: 'Approved',
+    rejected: 'Rejected',
+    editAddressToast: 'Edit the address in Vendure, then press Approve',
+    editAddress: (code, url) => `Order ${code}: edit the shipping address in Vendure${url ? ` (${url})` : ''}, then press Approve.`,
+    failedToast: 'Failed',
+    decisionFailed: (action, code, error) => `${action} ${code} failed: ${error}`,
+  },
+  notes: {
+    approved: (by) => `Fulfillment approved by ${by} on Telegram`,
+    rejected: (by) => `Fulfillment rejected by ${by} on Telegram; the order is on hold`,
+    addressRequested: (by) => `Shipping address edit requested by ${by} on Telegram`,
+    providerCancelled: (p) =>
+      `${p.provider} cancelled order ${p.providerOrderId} (event ${p.event}).${p.reason ? ` Reason: ${p.reason}.` : ''} Re-route or refund it.`,
+  },
+  messages: {
+    'fulfillment.started': { title: () => 'Fulfillment job starting' },
+    'fulfillment.completed': {
+      title: (p) => `Fulfillment job completed${p.dryRun ? ' (dry-run)' : ''}`,
+      details: (p) =>
+        p.channels
+          .map((c) => (c.error ? `${c.code}: error – ${c.error}` : `${c.code}: ${c.fulfilled} fulfilled, ${c.skipped} skipped, ${c.failed} failed`))
+          .join('\n'),
+    },
+    'fulfillment.failed': { title: () => 'Fulfillment job failed', details: (p) => p.error },
+    'fulfillment.vendure-unsupported': {
+      title: () => 'Vendure fulfillment unsupported on current Admin API',
+      details: () => 'Orders will fail at the Vendure fulfillment step',
+    },
+    'channel.completed': {
+      title: (p) => `Channel ${p.channel} completed${p.dryRun ? ' (dry-run)' : ''}`,
+      details: (p) =>
+        p.fulfilled + p.skipped + p.failed === 0
+          ? 'No eligible orders found.'
+          : lines(`Successful fulfillments: ${p.fulfilled}`, `Skipped: ${p.skipped}`, `Failed: ${p.failed}`, ...bullets(p.orders)),
+    },
+    'channel.failed': { title: (p) => `Channel ${p.channel} failed`, details: (p) => p.error },
+    'order.fulfilled': {
+      title: (p) => (p.heldSkus.length ? 'Order partially fulfilled' : 'Order fulfilled'),
+      details: (p) =>
+        lines(
+          ...p.fulfillments.map((f) => {
+            const provider = f.providerOrderId ? ` (${f.reused ? 'existing ' : ''}${f.provider} ${f.providerOrderId})` : '';
+            return `Order ${p.code} → fulfillment ${f.id} (${f.state})${provider}`;
+          }),
+          p.heldSkus.length > 0 && `Held for manual fulfillment: ${p.heldSkus.join(', ')}`,
+        ),
+    },
+    'order.failed': { title: () => 'Order fulfillment failed', details: (p) => `Order ${p.code} [${p.step}]: ${p.reason}` },
+    'order.lines-held': {
+      title: () => 'Order lines held for manual fulfillment',
+      details: (p) => `Order ${p.code}: no Printify mapping for ${p.skus.join(', ')}`,
+    },
+    'approval.requested': {
+      title: () => 'Order awaiting approval',
+      details: (p) =>
+        lines(
+          `Order ${p.code} [${p.channel}] – ${p.total}`,
+          `Customer: ${p.customer ?? 'unknown'}`,
+          `Ship to: ${p.address}`,
+          ...p.lines.map((line) => `• ${line}`),
+          `Needs approval: ${p.reasons
+            .map((r) => (r.kind === 'total' ? `total ${r.total} ≥ ${r.threshold}` : `first order of ${r.customer}`))
+            .join('; ')}`,
+          p.url,
+        ),
+    },
+    'approval.approved': { title: (p) => `Order ${p.code} approved`, details: (p) => `By ${p.by} at ${p.at}` },
+    'approval.rejected': { title: (p) => `Order ${p.code} rejected`, details: (p) => `By ${p.by} at ${p.at}` },
+    'submit.started': { title: () => 'Auto-submit to production starting', details: (p) => `Hold window: ${p.holdHours}h` },
+    'submit.skipped': { title: () => 'Printify draft not submitted', details: (p) => `Order ${p.code}: ${p.reason}` },
+    'submit.submitted': {
+      title: () => 'Printify order sent to production',
+      details: (p) => `Order ${p.code} → Printify ${p.shop} ${p.printifyOrderId}`,
+    },
+    'submit.failed': { title: () => 'Printify submission failed', details: (p) => `Order ${p.code}: ${p.reason}` },
+    'submit.completed': {
+      title: (p) => `Auto-submit to production completed${p.dryRun ? ' (dry-run)' : ''}`,
+      details: (p) =>
+        lines(`Submitted: ${p.submitted}`, `Held: ${p.held}`, `Skipped: ${p.skipped}`, `Failed: ${p.failed}`, ...bullets(p.orders)),
+    },
+    'submit.run-failed': { title: () => 'Auto-submit to production failed', details: (p) => p.error },
+    'cancel.started': { title: () => 'Cancellation sync starting' },
+    'cancel.too-late': {
+      title: () => 'Provider order cannot be cancelled',
+      details: (p) =>
+        `Order ${p.code} → ${p.provider} ${p.providerOrderId} is ${p.status}. Stop it manually with ${p.providerName}.`,
+    },
+    'cancel.cancelled': { title: () => 'Provider order cancelled', details: (p) => `Order ${p.code} → ${p.provider} ${p.providerOrderId}` },
+    'cancel.failed': { title: () => 'Provider cancellation failed', details: (p) => `Order ${p.code}: ${p.reason}` },
+    'cancel.completed': {
+      title: (p) => `Cancellation sync completed${p.dryRun ? ' (dry-run)' : ''}`,
+      details: (p) => lines(`Cancelled: ${p.cancelled}`, `Too late: ${p.tooLate}`, `Failed: ${p.failed}`),
+    },
+    'cancel.run-failed': { title: () => 'Cancellation sync failed', details: (p) => p.error },
+    'mapping.started': { title: () => 'Mapping validation starting' },
+    'mapping.completed': {
+      title: () => 'Mapping validation completed',
+      details: (p) =>
+        lines(
+          `${p.rows} row(s) checked: ${p.errors} error(s), ${p.warnings} warning(s)`,
+          !p.printifyChecked && 'Printify not checked (mock API or Printify disabled)',
+          ...issueLines(p, en.more),
+        ),
+    },
+    'mapping.failed': { title: () => 'Mapping validation failed', details: (p) => p.error },
+    'control.paused': { title: () => 'Automation paused', details: (p) => `By ${p.by}` },
+    'control.resumed': { title: () => 'Automation resumed', details: (p) => `By ${p.by}` },
+    'webhook.stopped': {
+      title: (p) => `${p.provider} cancelled the order`,
+      details: (p) =>
+        `Order ${p.code} → fulfillment ${p.fulfillmentId ?? 'N/A'} cancelled.${p.reason ? ` Reason: ${p.reason}.` : ''} Re-route or refund it.`,
+    },
+    'webhook.issue': {
+      title: (p) => `${p.provider} flagged an issue with the order`,
+      details: (p) =>
+        `Order ${p.code}${p.reason ? `: ${p.reason}` : ''}. The fulfillment is unchanged; check the order with ${p.provider}.`,
+    },
+    'webhook.order-not-found': { title: (p) => `${p.provider} webhook skipped`, details: (p) => `Order ${p.code} not found.` },
+    'webhook.rejected': { title: (p) => `${p.provider} webhook rejected`, details: () => 'Invalid signature' },
+    'webhook.processed': {
+      title: (p) => `${p.provider} webhook processed${p.bypass ? ' (signature bypassed with secret)' : ''}`,
+      details: (p) => `Order ${p.code} → fulfillment ${p.fulfillmentIds.join(', ') || 'N/A'} moved to ${p.state}.`,
+    },
+    'webhook.failed': {
+      title: (p) => `${p.provider} webhook processing failed`,
+      details: (p) => `${p.error}\nDead-lettered as ${p.deadLetterId}`,
+    },
+    'webhook.replayed': {
+      title: () => 'Webhook replay',
+      details: (p) =>
+        lines(
+          `Replayed: ${p.replayed}`,
+          `Resolved: ${p.resolved}`,
+          `Failed: ${p.failed}`,
+          ...p.errors.map((entry) => `• ${entry.id}: ${entry.error}`),
+        ),
+    },
+  },
+};
+
+const vi: LocaleStrings = {
+  automation: '🤖 Tự động',
+  dryRun: '🧪 Chế độ thử',
+  digest: { success: 'Thành công', failure: 'Thất bại', skipped: 'Bỏ qua', other: 'Khác' },
+  more: (count) => `…và ${count} mục khác`,
+  bot: {
+    usage: [
+      '/status – trạng thái tạm dừng và tóm tắt lần chạy gần nhất',
+      '/order MÃ – trạng thái đơn trên Vendure và nhà cung cấp',
+      '/retry MÃ – chạy quy trình giao hàng cho một đơn',
+      '/dryrun MÃ – như trên, nhưng không tạo gì',
+      '/pause – dừng các lần chạy giao hàng và gửi sản xuất theo lịch',
+      '/resume – chạy lại',
+    ],
+    usageOf: (command) => `Cách dùng: /${command} MÃ`,
+    failed: (command, error) => `/${command} thất bại: ${error}`,
+    running: '▶️ Đang chạy',
+    pausedSince: (at, by) => `⏸ Tạm dừng từ ${at}${by ? ` bởi ${by}` : ''}`,
+    lastRun: (run) =>
+      `Lần chạy gần nhất ${run.at}${run.dryRun ? ' (chạy thử)' : ''}: ${run.fulfilled} đã giao, ${run.skipped} bỏ qua, ${run.failed} thất bại`,
+    noRun: 'Chưa có lần chạy nào.',
+    deadLetters: (count) => `Webhook trong hàng đợi lỗi: ${count}`,
+    order: (code, channel, state) => `Đơn ${code} [${channel}]: ${state}`,
+    orderLine: (sku, quantity, fulfilled) => `• ${sku} × ${quantity} (đã giao ${fulfilled})`,
+    fulfillment: (id, state, trackingCode) => `Fulfillment ${id}: ${state}${trackingCode ? ` – ${trackingCode}` : ''}`,
+    orderNotFound: (code) => `Không tìm thấy đơn ${code} ở kênh nào.`,
+    providerOrder: (provider, id, status) => `${provider} ${id}: ${status}`,
+    providerStatusUnknown: 'không rõ',
+    lookupFailed: (error) => `tra cứu thất bại: ${error}`,
+    lastAttempt: (a) => `Lần xử lý gần nhất ${a.at}: ${a.status}${a.step ? ` ở bước ${a.step}` : ''}${a.error ? ` – ${a.error}` : ''}`,
+    approval: (status, reasons, by) => `Duyệt: ${status}${by ? ` bởi ${by}` : ''} (${reasons.join('; ')})`,
+    heldLines: (count) => `Dòng hàng đang giữ: ${count}`,
+    result: (r) => `Đơn ${r.code} [${r.channel}]: ${r.status}${r.step ? ` ở bước ${r.step}` : ''}`,
+    resultFulfillment: (provider, providerOrderId, fulfillmentId, state) =>
+      `• ${provider ? `${provider} ${providerOrderId ?? '–'}` : 'thủ công'} → fulfillment ${fulfillmentId ?? '–'} (${state ?? 'chưa tạo'})`,
+    held: (skus) => `Đang giữ: ${skus.join(', ')}`,
+    paused: 'Đã tạm dừng: các lần chạy giao hàng và gửi sản xuất theo lịch sẽ không làm gì cho đến khi /resume.',
+    resumed: 'Đã tiếp tục.',
+    notAllowed: 'Không được phép',
+    notAwaiting: (code, status) => `Đơn ${code} ${status ? `đang ở trạng thái ${status}` : 'không chờ duyệt'}`,
+    approved: 'Đã duyệt',
+    rejected: 'Đã từ chối',
+    editAddressToast: 'Sửa địa chỉ trên Vendure rồi bấm Duyệt',
+    editAddress: (code, url) => `Đơn ${code}: sửa địa chỉ giao hàng trên Vendure${url ? ` (${url})` : ''} rồi bấm Duyệt.`,
+    failedToast: 'Thất bại',
+    decisionFailed: (action, code, error) => `${action} ${code} thất bại: ${error}`,
+  },
+  notes: {
+    approved: (by) => `${by} đã duyệt giao hàng trên Telegram`,
+    rejected: (by) => `${by} đã từ chối giao hàng trên Telegram; đơn đang bị giữ`,
+    addressRequested: (by) => `${by} yêu cầu sửa địa chỉ giao hàng trên Telegram`,
+    providerCancelled: (p) =>
+      `${p.provider} đã huỷ đơn ${p.providerOrderId} (sự kiện ${p.event}).${p.reason ? ` Lý do: ${p.reason}.` : ''} Cần định tuyến lại hoặc hoàn tiền.`,
+  },
+  messages: {
+    'fulfillment.started': { title: () => 'Bắt đầu chạy xử lý giao hàng' },
+    'fulfillment.completed': {
+      title: (p) => `Hoàn thành xử lý giao hàng${p.dryRun ? ' (chạy thử)' : ''}`,
+      details: (p) =>
+        p.channels
+          .map((c) => (c.error ? `${c.code}: lỗi – ${c.error}` : `${c.code}: ${c.fulfilled} đã giao, ${c.skipped} bỏ qua, ${c.failed} thất bại`))
+          .join('\n'),
+    },
+    'fulfillment.failed': { title: () => 'Xử lý giao hàng thất bại', details: (p) => p.error },
+    'fulfillment.vendure-unsupported': {
+      title: () => 'Admin API của Vendure không hỗ trợ tạo fulfillment',
+      details: () => 'Các đơn sẽ thất bại ở bước tạo fulfillment Vendure',
+    },
+    'channel.completed': {
+      title: (p) => `Kênh ${p.channel} hoàn thành${p.dryRun ? ' (chạy thử)' : ''}`,
+      details: (p) =>
+        p.fulfilled + p.skipped + p.failed === 0
+          ? 'Không có đơn nào đủ điều kiện.'
+          : lines(`Giao thành công: ${p.fulfilled}`, `Bỏ qua: ${p.skipped}`, `Thất bại: ${p.failed}`, ...bullets(p.orders)),
+    },
+    'channel.failed': { title: (p) => `Kênh ${p.channel} gặp lỗi`, details: (p) => p.error },
+    'order.fulfilled': {
+      title: (p) => (p.heldSkus.length ? 'Đơn đã giao một phần' : 'Đơn đã được xử lý giao hàng'),
+      details: (p) =>
+        lines(
+          ...p.fulfillments.map((f) => {
+            const provider = f.providerOrderId ? ` (${f.reused ? 'đơn có sẵn ' : ''}${f.provider} ${f.providerOrderId})` : '';
+            return `Đơn ${p.code} → fulfillment ${f.id} (${f.state})${provider}`;
+          }),
+          p.heldSkus.length > 0 && `Giữ lại để xử lý thủ công: ${p.heldSkus.join(', ')}`,
+        ),
+    },
+    'order.failed': { title: () => 'Xử lý đơn thất bại', details: (p) => `Đơn ${p.code} [${p.step}]: ${p.reason}` },
+    'order.lines-held': {
+      title: () => 'Giữ lại dòng hàng để xử lý thủ công',
+      details: (p) => `Đơn ${p.code}: chưa có ánh xạ Printify cho ${p.skus.join(', ')}`,
+    },
+    'approval.requested': {
+      title: () => 'Đơn chờ duyệt',
+      details: (p) =>
+        lines(
+          `Đơn ${p.code} [${p.channel}] – ${p.total}`,
+          `Khách hàng: ${p.customer ?? 'không rõ'}`,
+          `Giao đến: ${p.address}`,
+          ...p.lines.map((line) => `• ${line}`),
+          `Cần duyệt: ${p.reasons
+            .map((r) => (r.kind === 'total' ? `tổng ${r.total} ≥ ${r.threshold}` : `đơn đầu tiên của ${r.customer}`))
+            .join('; ')}`,
+          p.url,
+        ),
+    },
+    'approval.approved': { title: (p) => `Đã duyệt đơn ${p.code}`, details: (p) => `Bởi ${p.by} lúc ${p.at}` },
+    'approval.rejected': { title: (p) => `Đã từ chối đơn ${p.code}`, details: (p) => `Bởi ${p.by} lúc ${p.at}` },
+    'submit.started': { title: () => 'Bắt đầu tự động gửi sản xuất', details: (p) => `Thời gian giữ: ${p.holdHours} giờ` },
+    'submit.skipped': { title: () => 'Không gửi bản nháp Printify', details: (p) => `Đơn ${p.code}: ${p.reason}` },
+    'submit.submitted': {
+      title: () => 'Đã gửi đơn Printify sang sản xuất',
+      details: (p) => `Đơn ${p.code} → Printify ${p.shop} ${p.printifyOrderId}`,
+    },
+    'submit.failed': { title: () => 'Gửi sản xuất Printify thất bại', details: (p) => `Đơn ${p.code}: ${p.reason}` },
+    'submit.completed': {
+      title: (p) => `Hoàn thành tự động gửi sản xuất${p.dryRun ? ' (chạy thử)' : ''}`,
+      details: (p) =>
+        lines(`Đã gửi: ${p.submitted}`, `Đang giữ: ${p.held}`, `Bỏ qua: ${p.skipped}`, `Thất bại: ${p.failed}`, ...bullets(p.orders)),
+    },
+    'submit.run-failed': { title: () => 'Tự động gửi sản xuất thất bại', details: (p) => p.error },
+    'cancel.started': { title: () => 'Bắt đầu đồng bộ huỷ đơn' },
+    'cancel.too-late': {
+      title: () => 'Không thể huỷ đơn ở nhà cung cấp',
+      details: (p) =>
+        `Đơn ${p.code} → ${p.provider} ${p.providerOrderId} đang ở trạng thái ${p.status}. Hãy dừng thủ công trên ${p.providerName}.`,
+    },
+    'cancel.cancelled': { title: () => 'Đã huỷ đơn ở nhà cung cấp', details: (p) => `Đơn ${p.code} → ${p.provider} ${p.providerOrderId}` },
+    'cancel.failed': { title: () => 'Huỷ đơn ở nhà cung cấp thất bại', details: (p) => `Đơn ${p.code}: ${p.reason}` },
+    'cancel.completed': {
+      title: (p) => `Hoàn thành đồng bộ huỷ đơn${p.dryRun ? ' (chạy thử)' : ''}`,
+      details: (p) => lines(`Đã huỷ: ${p.cancelled}`, `Quá muộn: ${p.tooLate}`, `Thất bại: ${p.failed}`),
+    },
+    'cancel.run-failed': { title: () => 'Đồng bộ huỷ đơn thất bại', details: (p) => p.error },
+    'mapping.started': { title: () => 'Bắt đầu kiểm tra ánh xạ SKU' },
+    'mapping.completed': {
+      title: () => 'Hoàn thành kiểm tra ánh xạ SKU',
+      details: (p) =>
+        lines(
+          `Đã kiểm tra ${p.rows} dòng: ${p.errors} lỗi, ${p.warnings} cảnh báo`,
+          !p.printifyChecked && 'Chưa kiểm tra Printify (API giả lập hoặc Printify bị tắt)',
+          ...issueLines(p, vi.more),
+        ),
+    },
+    'mapping.failed': { title: () => 'Kiểm tra ánh xạ SKU thất bại', details: (p) => p.error },
+    'control.paused': { title: () => 'Đã tạm dừng tự động hoá', details: (p) => `Bởi ${p.by}` },
+    'control.resumed': { title: () => 'Đã tiếp tục tự động hoá', details: (p) => `Bởi ${p.by}` },
+    'webhook.stopped': {
+      title: (p) => `${p.provider} đã huỷ đơn hàng`,
+      details: (p) =>
+        `Đơn ${p.code} → fulfillment ${p.fulfillmentId ?? 'N/A'} đã huỷ.${p.reason ? ` Lý do: ${p.reason}.` : ''} Cần định tuyến lại hoặc hoàn tiền.`,
+    },
+    'webhook.issue': {
+      title: (p) => `${p.provider} báo sự cố với đơn hàng`,
+      details: (p) =>
+        `Đơn ${p.code}${p.reason ? `: ${p.reason}` : ''}. Fulfillment không thay đổi; hãy kiểm tra đơn trên ${p.provider}.`,
+    },
+    'webhook.order-not-found': { title: (p) => `Bỏ qua webhook ${p.provider}`, details: (p) => `Không tìm thấy đơn ${p.code}.` },
+    'webhook.rejected': { title: (p) => `Từ chối webhook ${p.provider}`, details: () => 'Chữ ký không hợp lệ' },
+    'webhook.processed': {
+      title: (p) => `Đã xử lý webhook ${p.provider}${p.bypass ? ' (bỏ qua chữ ký bằng secret)' : ''}`,
+      details: (p) => `Đơn ${p.code} → fulfillment ${p.fulfillmentIds.join(', ') || 'N/A'} chuyển sang trạng thái ${p.state}.`,
+    },
+    'webhook.failed': {
+      title: (p) => `Xử lý webhook ${p.provider} thất bại`,
+      details: (p) => `${p.error}\nĐã lưu vào hàng đợi lỗi: ${p.deadLetterId}`,
+    },
+    'webhook.replayed': {
+      title: () => 'Phát lại webhook',
+      details: (p) =>
+        lines(
+          `Đã phát lại: ${p.replayed}`,
+          `Thành công: ${p.resolved}`,
+          `Thất bại: ${p.failed}`,
+          ...p.errors.map((entry) => `• ${entry.id}: ${entry.error}`),
+        ),
+    },
+  },
+};
+
+const CATALOGS: Record<Locale, LocaleStrings> = { vi, en };
+
+export interface RenderedMessage {
+  icon: string;
+  title: string;
+  details?: string;
+}
+
+export function localeStrings(locale: Locale): LocaleStrings {
+  return CATALOGS[locale];
+}
+
+export function renderMessage(event: NotificationEvent, locale: Locale): RenderedMessage {
+  // The union of templates cannot be indexed with the union of params; the key pairs them up.
+  const template = CATALOGS[locale].messages[event.key] as MessageTemplate<NotificationEvent['params']>;
+  return {
+    icon: MESSAGE_ICONS[event.key],
+    title: template.title(event.params),
+    details: template.details?.(event.params) || undefined,
+  };
+}
@@ -0,0 +1,98 @@
+import type { AutomationConfig, NotificationChannelConfig } from '../config.js';
+import { EmailNotifier } from './email-notifier.js';
+import { NotificationEvent, localeStrings, renderMessage } from './messages.js';
+import { DigestEntry, Notifier, NotifyOptions, NotifySeverity } from './notifier.js';
+import { SlackNotifier } from './slack-notifier.js';
+import { TelegramReporter } from './telegram.js';
+import { WebhookNotifier } from './webhook-notifier.js';
+
+/**
+ * Fans every notification out to the configured notifiers. Each one applies
+ * its own severity filter and digest setting; a failing transport never
+ * stops the others.
+ */
+export class NotificationHub implements Notifier {
+  readonly name = 'hub';
+
+  constructor(
+    private readonly notifiers: Notifier[],
+    private readonly dryRun: boolean,
+  ) {}
+
+  /** Logs are always English, whatever the notifiers are set to. */
+  private log(event: NotificationEvent): void {
+    const { title, details } = renderMessage(event, 'en');
+    const label = this.dryRun ? localeStrings('en').dryRun : localeStrings('en').automation;
+    console.log(`[automation] ${label}: ${title} ${details ?? ''}`);
+  }
+
+  private async each(send: (notifier: Notifier) => Promise<void>): Promise<void> {
+    await Promise.all(
+      this.notifiers.map((notifier) =>
+        send(notifier).catch((error) => console.error(`Notifier ${notifier.name} failed`, error)),
+      ),
+    );
+  }
+
+  async notify(event: NotificationEvent, options?: NotifyOptions): Promise<void> {
+    this.log(event);
+    await this.each((notifier) => notifier.notify(event, options));
+  }
+
+  record(entry: DigestEntry): void {
+    for (const notifier of this.notifiers) {
+      notifier.record(entry);
+    }
+  }
+
+  async beginRun(event: NotificationEvent): Promise<void> {
+    this.log(event);
+    await this.each((notifier) => notifier.beginRun(event));
+  }
+
+  async endRun(event: NotificationEvent, severity?: NotifySeverity): Promise<void> {
+    this.log(event);
+    await this.each((notifier) => notifier.endRun(event, severity));
+  }
+}
+
+export function createTelegramReporter(cfg: AutomationConfig, dryRun = cfg.job.dryRun): TelegramReporter {
+  return new TelegramReporter({
+    enabled: cfg.telegram.enabled,
+    botToken: cfg.telegram.botToken,
+    chatId: cfg.telegram.chatId,
+    dryRun,
+    digest: cfg.telegram.digest,
+    minSeverity: cfg.telegram.minSeverity,
+    locale: cfg.telegram.locale,
+  });
+}
+
+function createChannelNotifier(channel: NotificationChannelConfig, dryRun: boolean): Notifier {
+  const options = {
+    dryRun,
+    digest: channel.digest,
+    minSeverity: channel.minSeverity,
+    locale: channel.locale,
+    name: channel.name,
+  };
+  switch (channel.type) {
+    case 'slack':
+      return new SlackNotifier({ ...options, webhookUrl: channel.webhookUrl });
+    case 'email':
+      return new EmailNotifier({ ...options, smtpUrl: channel.smtpUrl, from: channel.from, to: channel.to });
+    case 'webhook':
+      return new WebhookNotifier({ ...options, url: channel.url, headers: channel.headers });
+  }
+}
+
+/** Telegram (when configured) plus every NOTIFY_CHANNELS entry. */
+export function createNotificationHub(
+  cfg: AutomationConfig,
+  dryRun = cfg.job.dryRun,
+  telegram: TelegramReporter = createTelegramReporter(cfg, dryRun),
+): NotificationHub {
+  const notifiers: Notifier[] = cfg.telegram.enabled ? [telegram] : [];
+  notifiers.push(...cfg.notifications.map((channel) => createChannelNotifier(channel, dryRun)));
+  return new NotificationHub(notifiers, dryRun);
+}
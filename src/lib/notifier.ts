@@ -0,0 +1,229 @@
+import { Locale, MessageKey, NotificationEvent, localeStrings, renderMessage } from './messages.js';
+
+export type NotifySeverity = 'info' | 'warning' | 'critical';
+
+export const NOTIFY_SEVERITIES: NotifySeverity[] = ['info', 'warning', 'critical'];
+
+export type DigestOutcome = 'success' | 'failure' | 'skipped';
+
+/** How an event is listed in a run digest. */
+export interface DigestEntry {
+  outcome: DigestOutcome;
+  /** Usually the order code. */
+  subject: string;
+  /** Failures with the same detail are grouped together. */
+  detail?: string;
+}
+
+export interface NotifyOptions {
+  /** `info` by default. Critical events are sent right away, even while a digest is being collected. */
+  severity?: NotifySeverity;
+  /** Listed under its outcome in a digest; events without one go under "Other". */
+  entry?: DigestEntry;
+  /** Set to false for events a digest already covers (e.g. per-channel summaries); they are dropped while one is collected. */
+  digest?: boolean;
+}
+
+export interface DigestSection {
+  outcome: DigestOutcome | 'other';
+  title: string;
+  /** Number of events in the section; `lines` may list fewer. */
+  count: number;
+  lines: string[];
+}
+
+/** One message as handed to a notifier's transport, rendered in the notifier's locale. */
+export interface Notification {
+  key: MessageKey;
+  params: NotificationEvent['params'];
+  locale: Locale;
+  icon: string;
+  title: string;
+  details?: string;
+  severity: NotifySeverity;
+  dryRun: boolean;
+  at: string;
+  /** Set on the message closing a digest run. */
+  sections?: DigestSection[];
+}
+
+/** Where job events go. Implemented per transport and by the fan-out hub. */
+export interface Notifier {
+  readonly name: string;
+  notify(event: NotificationEvent, options?: NotifyOptions): Promise<void>;
+  /** Adds an event to the digest without a message of its own outside digest mode (e.g. skipped orders). */
+  record(entry: DigestEntry): void;
+  /** Announces a job run, or in digest mode starts collecting its events silently. */
+  beginRun(event: NotificationEvent): Promise<void>;
+  /** Announces the end of a job run; in digest mode this is the run's only message. */
+  endRun(event: NotificationEvent, severity?: NotifySeverity): Promise<void>;
+}
+
+export interface NotifierOptions {
+  dryRun: boolean;
+  /** Buffer the events of a run between `beginRun` and `endRun` and send them as one summary. */
+  digest?: boolean;
+  /** Messages below this severity are dropped; `info` by default. */
+  minSeverity?: NotifySeverity;
+  /** Language messages are rendered in; `vi` by default. */
+  locale?: Locale;
+}
+
+/** Lines per digest section; the rest is counted, not listed. */
+const DIGEST_SECTION_LINES = 15;
+
+/** Order codes listed per failure reason in a digest. */
+const DIGEST_GROUP_SUBJECTS = 10;
+
+const DIGEST_OUTCOMES: DigestOutcome[] = ['success', 'failure', 'skipped'];
+
+export function severityRank(severity: NotifySeverity): number {
+  return NOTIFY_SEVERITIES.indexOf(severity);
+}
+
+function capLines(lines: string[], locale: Locale): string[] {
+  return lines.length > DIGEST_SECTION_LINES
+    ? [...lines.slice(0, DIGEST_SECTION_LINES), localeStrings(locale).more(lines.length - DIGEST_SECTION_LINES)]
+    : lines;
+}
+
+/** Successes, failures grouped by reason, skipped orders, then other events. */
+export function buildDigestSections(entries: DigestEntry[], notes: string[], locale: Locale = 'vi'): DigestSection[] {
+  const titles = localeStrings(locale).digest;
+  const sections: DigestSection[] = [];
+  for (const outcome of DIGEST_OUTCOMES) {
+    const matching = entries.filter((entry) => entry.outcome === outcome);
+    if (matching.length === 0) {
+      continue;
+    }
+    let lines: string[];
+    if (outcome === 'failure') {
+      const groups = new Map<string, string[]>();
+      for (const entry of matching) {
+        const reason = entry.detail ?? 'Unknown error';
+        groups.set(reason, [...(groups.get(reason) ?? []), entry.subject]);
+      }
+      lines = [...groups].map(([reason, subjects]) => {
+        const listed = subjects.slice(0, DIGEST_GROUP_SUBJECTS).join(', ');
+        const more = subjects.length > DIGEST_GROUP_SUBJECTS ? ` +${subjects.length - DIGEST_GROUP_SUBJECTS}` : '';
+        return `${reason} (${subjects.length}): ${listed}${more}`;
+      });
+    } else {
+      lines = matching.map((entry) => (entry.detail ? `${entry.subject}: ${entry.detail}` : entry.subject));
+    }
+    sections.push({ outcome, title: titles[outcome], count: matching.length, lines: capLines(lines, locale) });
+  }
+  if (notes.length > 0) {
+    sections.push({ outcome: 'other', title: titles.other, count: notes.length, lines: capLines(notes, locale) });
+  }
+  return sections;
+}
+
+/**
+ * Digest buffering and severity filtering shared by every transport;
+ * subclasses only format and send a `Notification`.
+ */
+export abstract class BaseNotifier implements Notifier {
+  abstract readonly name: string;
+
+  /** Events of the current run while a digest is open. */
+  private digestEntries: DigestEntry[] | null = null;
+  /** Events without a digest entry, rendered when the digest is sent. */
+  private digestNotes: NotificationEvent[] = [];
+  private digestSeverity: NotifySeverity = 'info';
+
+  constructor(protected readonly notifierOptions: NotifierOptions) {}
+
+  /** Formats and sends one message. Transports log and swallow their own errors. */
+  protected abstract deliver(notification: Notification): Promise<void>;
+
+  protected get locale(): Locale {
+    return this.notifierOptions.locale ?? 'vi';
+  }
+
+  private async send(event: NotificationEvent, severity: NotifySeverity, sections?: DigestSection[]) {
+    if (severityRank(severity) < severityRank(this.notifierOptions.minSeverity ?? 'info')) {
+      return;
+    }
+    await this.deliver({
+      key: event.key,
+      params: event.params,
+      locale: this.locale,
+      ...renderMessage(event, this.locale),
+      severity,
+      dryRun: this.notifierOptions.dryRun,
+      at: new Date().toISOString(),
+      sections,
+    });
+  }
+
+  private raiseDigestSeverity(severity: NotifySeverity): void {
+    if (severityRank(severity) > severityRank(this.digestSeverity)) {
+      this.digestSeverity = severity;
+    }
+  }
+
+  async notify(event: NotificationEvent, options: NotifyOptions = {}): Promise<void> {
+    const severity = options.severity ?? 'info';
+    if (this.digestEntries && severity !== 'critical') {
+      if (options.digest === false) {
+        return;
+      }
+      if (options.entry) {
+        this.record(options.entry);
+      } else {
+        this.digestNotes.push(event);
+      }
+      this.raiseDigestSeverity(severity);
+      return;
+    }
+    await this.send(event, severity);
+  }
+
+  record(entry: DigestEntry): void {
+    if (!this.digestEntries) {
+      return;
+    }
+    this.digestEntries.push(entry);
+    // So a `warning` filter still gets the digest of a run with failed orders.
+    if (entry.outcome === 'failure') {
+      this.raiseDigestSeverity('warning');
+    }
+  }
+
+  async beginRun(event: NotificationEvent): Promise<void> {
+    if (this.notifierOptions.digest) {
+      this.digestEntries = [];
+      this.digestNotes = [];
+      this.digestSeverity = 'info';
+      return;
+    }
+    await this.send(event, 'info');
+  }
+
+  async endRun(event: NotificationEvent, severity: NotifySeverity = 'info'): Promise<void> {
+    const entries = this.digestEntries;
+    if (!entries) {
+      await this.send(event, severity);
+      return;
+    }
+    const notes = this.digestNotes.map((note) => {
+      const { title, details } = renderMessage(note, this.locale);
+      return details ? `${title}: ${details.replace(/\n/g, '; ')}` : title;
+    });
+    const sections = buildDigestSections(entries, notes, this.locale);
+    this.raiseDigestSeverity(severity);
+    this.digestEntries = null;
+    this.digestNotes = [];
+    await this.send(event, this.digestSeverity, sections);
+  }
+}
+
+/** Plain-text rendering of a notification, for transports without markup. */
+export function formatPlainText(notification: Notification): string {
+  const parts = [notification.details ?? ''];
+  for (const section of notification.sections ?? []) {
+    parts.push(`${section.title} (${section.count})\n${section.lines.map((line) => `  ${line}`).join('\n')}`);
+  }
+  return parts.filter(Boolean).join('\n\n');
+}
@@ -1,6 +1,13 @@
+/**
+ * Either an existing product (`product_id`) or one Printify creates on the fly
+ * from a blueprint, print provider and print areas.
+ */
 export interface PrintifyLineItemInput {
-  productId: number;
-  variantId: number;
+  product_id?: string | number;
+  variant_id: number;
+  blueprint_id?: number;
+  print_provider_id?: number;
+  print_areas?: Record<string, string>;
   quantity: number;
   metadata?: Record<string, unknown> | null;
 }
@@ -28,20 +35,114 @@ export interface CreatePrintifyOrderInput {
   metadata?: Record<string, unknown>;
 }
 
+export type PrintifyOrderStatus =
+  | 'pending'
+  | 'on-hold'
+  | 'payment-not-received'
+  | 'sending-to-production'
+  | 'in-production'
+  | 'has-issues'
+  | 'partially-fulfilled'
+  | 'fulfilled'
+  | 'canceled'
+  | 'mocked';
+
+export interface PrintifyShipment {
+  carrier?: string;
+  number?: string;
+  url?: string;
+  delivered_at?: string | null;
+}
+
+export interface PrintifyOrderLineItem {
+  product_id?: string;
+  variant_id?: number;
+  quantity?: number;
+  status?: string;
+  metadata?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
 export interface PrintifyOrderResponse {
   id: string;
-  status: string;
+  status: PrintifyOrderStatus | string;
   external_id?: string;
-  shipments?: unknown[];
+  created_at?: string;
+  sent_to_production_at?: string | null;
+  fulfilled_at?: string | null;
+  line_items?: PrintifyOrderLineItem[];
+  shipments?: PrintifyShipment[];
   metadata?: Record<string, unknown>;
   [key: string]: unknown;
 }
 
+export interface PrintifyListOrdersOptions {
+  page?: number;
+  /** Printify caps this at 10. */
+  limit?: number;
+  status?: PrintifyOrderStatus;
+  sku?: string;
+}
+
+export interface PrintifyOrderPage {
+  current_page: number;
+  last_page: number;
+  total?: number;
+  data: PrintifyOrderResponse[];
+}
+
+export interface PrintifyShippingCost {
+  standard?: number;
+  express?: number;
+  priority?: number;
+  printify_express?: number;
+  economy?: number;
+}
+
+export interface PrintifyProductOption {
+  name: string;
+  type?: string;
+  values: Array<{ id: number; title: string }>;
+}
+
+export interface PrintifyProductVariant {
+  id: number;
+  sku?: string | null;
+  /** Option values joined with " / ", e.g. "Black / S". */
+  title: string;
+  /** Value IDs from the product's `options`, in option order. */
+  options?: number[];
+  is_enabled?: boolean;
+  is_available?: boolean;
+}
+
+export interface PrintifyProduct {
+  /** Printify product IDs are hex strings. */
+  id: string;
+  title: string;
+  blueprint_id?: number;
+  print_provider_id?: number;
+  options?: PrintifyProductOption[];
+  variants: PrintifyProductVariant[];
+  [key: string]: unknown;
+}
+
+export interface PrintifyProductPage {
+  current_page: number;
+  last_page: number;
+  total?: number;
+  data: PrintifyProduct[];
+}
+
+export type CalculatePrintifyShippingInput = Pick<CreatePrintifyOrderInput, 'line_items' | 'address_to'>;
+
 export interface PrintifyClientOptions {
   apiToken: string;
   shopId: string;
   baseUrl?: string;
   mock?: boolean;
+  /** Max pages of recent orders scanned when looking up an order by external_id. */
+  lookupPages?: number;
 }
 
 export class PrintifyClient {
@@ -52,6 +153,121 @@ export class PrintifyClient {
     this.baseUrl = base;
   }
 
+  private async request<T>(method: string, pathname: string, body?: unknown): Promise<T> {
+    const response = await fetch(`${this.baseUrl}${pathname}`, {
+      method,
+      headers: {
+        'content-type': 'application/json',
+        authorization: `Bearer ${this.options.apiToken}`,
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      throw new Error(`Printify request failed with status ${response.status}: ${text}`);
+    }
+
+    return (await response.json()) as T;
+  }
+
+  private orderPath(orderId?: string, action?: string): string {
+    const base = `/shops/${this.options.shopId}/orders`;
+    if (!orderId) {
+      return `${base}.json`;
+    }
+    return action ? `${base}/${orderId}/${action}.json` : `${base}/${orderId}.json`;
+  }
+
+  async getOrder(orderId: string): Promise<PrintifyOrderResponse> {
+    if (this.options.mock) {
+      return { id: orderId, status: 'mocked', metadata: { mock: true } };
+    }
+    return this.request<PrintifyOrderResponse>('GET', this.orderPath(orderId));
+  }
+
+  async listOrders(options: PrintifyListOrdersOptions = {}): Promise<PrintifyOrderPage> {
+    if (this.options.mock) {
+      return { current_page: options.page ?? 1, last_page: 1, total: 0, data: [] };
+    }
+    const params = new URLSearchParams();
+    params.set('page', String(options.page ?? 1));
+    params.set('limit', String(Math.min(options.limit ?? 10, 10)));
+    if (options.status) params.set('status', options.status);
+    if (options.sku) params.set('sku', options.sku);
+    return this.request<PrintifyOrderPage>('GET', `${this.orderPath()}?${params.toString()}`);
+  }
+
+  /** Products of the shop, 50 per page (Printify's maximum). */
+  async listProducts(page = 1): Promise<PrintifyProductPage> {
+    if (this.options.mock) {
+      return { current_page: page, last_page: 1, total: 0, data: [] };
+    }
+    return this.request<PrintifyProductPage>('GET', `/shops/${this.options.shopId}/products.json?page=${page}&limit=50`);
+  }
+
+  /** Null when the product does not exist in the shop (or was deleted). */
+  async getProduct(productId: string | number): Promise<PrintifyProduct | null> {
+    if (this.options.mock) {
+      return null;
+    }
+    try {
+      return await this.request<PrintifyProduct>('GET', `/shops/${this.options.shopId}/products/${productId}.json`);
+    } catch (error) {
+      if (error instanceof Error && /status (404|400)\b/.test(error.message)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /** Moves a draft (`on-hold`) order into production; Printify charges the shop at this point. */
+  async sendToProduction(orderId: string): Promise<PrintifyOrderResponse> {
+    if (this.options.mock) {
+      return { id: orderId, status: 'sending-to-production', metadata: { mock: true } };
+    }
+    return this.request<PrintifyOrderResponse>('POST', this.orderPath(orderId, 'send_to_production'));
+  }
+
+  /** Only succeeds while the order is still `on-hold` or `payment-not-received`. */
+  async cancelOrder(orderId: string): Promise<PrintifyOrderResponse> {
+    if (this.options.mock) {
+      return { id: orderId, status: 'canceled', metadata: { mock: true } };
+    }
+    return this.request<PrintifyOrderResponse>('POST', this.orderPath(orderId, 'cancel'));
+  }
+
+  async calculateShipping(input: CalculatePrintifyShippingInput): Promise<PrintifyShippingCost> {
+    if (this.options.mock) {
+      return { standard: 0 };
+    }
+    return this.request<PrintifyShippingCost>('POST', `/shops/${this.options.shopId}/orders/shipping.json`, input);
+  }
+
+  /**
+   * Printify has no filter on external_id, so this scans the most recent
+   * orders page by page. Canceled orders are ignored so a cancelled attempt
+   * does not block a fresh one.
+   */
+  async findOrderByExternalId(externalId: string): Promise<PrintifyOrderResponse | null> {
+    if (this.options.mock) {
+      return null;
+    }
+
+    const maxPages = this.options.lookupPages ?? 5;
+    for (let page = 1; page <= maxPages; page++) {
+      const result = await this.listOrders({ page, limit: 10 });
+      const match = result.data.find((order) => order.external_id === externalId && order.status !== 'canceled');
+      if (match) {
+        return match;
+      }
+      if (result.current_page >= result.last_page) {
+        break;
+      }
+    }
+    return null;
+  }
+
   async createOrder(input: CreatePrintifyOrderInput): Promise<PrintifyOrderResponse> {
     if (this.options.mock) {
       return {
@@ -65,21 +281,6 @@ export class PrintifyClient {
       };
     }
 
-    const url = `${this.baseUrl}/shops/${this.options.shopId}/orders.json`;
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'content-type': 'application/json',
-        authorization: `Bearer ${this.options.apiToken}`,
-      },
-      body: JSON.stringify(input),
-    });
-
-    if (!response.ok) {
-      const body = await response.text();
-      throw new Error(`Printify request failed with status ${response.status}: ${body}`);
-    }
-
-    return (await response.json()) as PrintifyOrderResponse;
+    return this.request<PrintifyOrderResponse>('POST', this.orderPath(), input);
   }
 }
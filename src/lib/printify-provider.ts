@@ -0,0 +1,205 @@
+import crypto from 'crypto';
+
+import {
+  FulfillmentProvider,
+  ProviderOrder,
+  ProviderOrderInput,
+  ProviderShipment,
+  ProviderWebhookEvent,
+  WebhookAction,
+} from './fulfillment-provider.js';
+import { getHeader } from './http.js';
+import { PrintifyClient, PrintifyOrderResponse, PrintifyOrderStatus } from './printify-client.js';
+import { PrintifyShopConfig } from './printify-shops.js';
+
+export type PrintifyWebhookPayload = {
+  /** Printify's event ID; stable across retries of the same delivery. */
+  id?: string;
+  event: string;
+  created_at?: string;
+  data?: {
+    id?: string;
+    /** Printify shop the order belongs to; decides which shop's mapping applies. */
+    shop_id?: string | number;
+    external_id?: string;
+    status?: string;
+    reason?: string;
+    shipments?: PrintifyWebhookShipment[];
+  };
+};
+
+/**
+ * Printify sends one shipment per print provider parcel. `line_items` tells us
+ * which Printify lines travel in it; without it we cannot split fulfillments.
+ */
+export type PrintifyWebhookShipment = {
+  id?: string;
+  carrier?: string;
+  tracking_number?: string;
+  number?: string;
+  url?: string;
+  delivered_at?: string | null;
+  line_items?: Array<{
+    product_id?: string | number;
+    variant_id?: number;
+    quantity?: number;
+    metadata?: { vendureOrderLineId?: string };
+  }>;
+};
+
+/** Order events Printify documents; `order:created` needs no action. */
+const PRINTIFY_EVENT_MAP: Record<string, WebhookAction> = {
+  'order:sent-to-production': { kind: 'transition', targetState: 'Fulfilled' },
+  'order:shipment:created': { kind: 'transition', targetState: 'Shipped' },
+  'order:shipment:delivered': { kind: 'transition', targetState: 'Delivered' },
+};
+
+/**
+ * `order:updated` carries the new Printify status instead of a dedicated event
+ * name. `has-issues` is recoverable on Printify's side, so it only alerts.
+ */
+const PRINTIFY_STATUS_MAP: Record<string, WebhookAction> = {
+  'in-production': { kind: 'transition', targetState: 'Fulfilled' },
+  canceled: { kind: 'cancelled' },
+  'has-issues': { kind: 'issue' },
+};
+
+/** Printify only accepts a cancel request while the order is `on-hold` or `payment-not-received` (see `PrintifyClient.cancelOrder`). */
+const CANCELLABLE_STATUSES: Array<PrintifyOrderStatus | string> = ['on-hold', 'payment-not-received'];
+
+export function resolveWebhookAction(payload: PrintifyWebhookPayload): WebhookAction | null {
+  if (payload.event === 'order:updated') {
+    const status = (payload.data?.status ?? '').toLowerCase();
+    return PRINTIFY_STATUS_MAP[status] ?? null;
+  }
+  return PRINTIFY_EVENT_MAP[payload.event] ?? null;
+}
+
+/** Falls back to a content hash for payloads that carry no event ID. */
+export function webhookEventId(payload: PrintifyWebhookPayload): string {
+  return payload.id ?? crypto.createHash('sha256').update(JSON.stringify(payload)).digest('hex');
+}
+
+function toShipment(shipment: PrintifyWebhookShipment): ProviderShipment {
+  return {
+    id: shipment.id,
+    carrier: shipment.carrier,
+    trackingNumber: shipment.tracking_number ?? shipment.number,
+    url: shipment.url,
+    deliveredAt: shipment.delivered_at,
+    lines: shipment.line_items?.map((item) => ({
+      vendureOrderLineId: item.metadata?.vendureOrderLineId,
+      variantId: item.variant_id,
+      quantity: item.quantity,
+    })),
+  };
+}
+
+/** Provider-neutral view of a Printify order, including whether it can still be cancelled. */
+export function toProviderOrder(order: PrintifyOrderResponse): ProviderOrder {
+  return {
+    id: order.id,
+    status: order.status,
+    externalId: order.external_id,
+    cancelled: order.status === 'canceled',
+    cancellable: CANCELLABLE_STATUSES.includes(order.status),
+  };
+}
+
+export class PrintifyProvider implements FulfillmentProvider {
+  readonly name = 'printify';
+  readonly accountId: string;
+  readonly key: string;
+  readonly shippingMethod?: number;
+
+  constructor(
+    readonly shop: PrintifyShopConfig,
+    readonly client: PrintifyClient,
+  ) {
+    this.accountId = shop.shopId;
+    this.key = `printify:${shop.key}`;
+    this.shippingMethod = shop.shippingMethod;
+  }
+
+  get verifiesWebhooks(): boolean {
+    return Boolean(this.shop.webhookSecret);
+  }
+
+  async createOrder(input: ProviderOrderInput): Promise<ProviderOrder> {
+    const { address } = input;
+    const created = await this.client.createOrder({
+      external_id: input.externalId,
+      label: input.label,
+      line_items: input.lineItems.map((item) => ({
+        product_id: item.productId,
+        variant_id: item.variantId,
+        blueprint_id: item.blueprintId,
+        print_provider_id: item.printProviderId,
+        print_areas: item.printAreas,
+        quantity: item.quantity,
+        metadata: item.metadata,
+      })),
+      shipping_method: input.shippingMethod,
+      send_shipping_notification: false,
+      address_to: {
+        first_name: address.firstName,
+        last_name: address.lastName,
+        email: address.email,
+        phone: address.phone,
+        country: address.country,
+        region: address.region,
+        address1: address.address1,
+        address2: address.address2,
+        city: address.city,
+        zip: address.zip,
+      },
+      metadata: input.metadata,
+    });
+    return toProviderOrder(created);
+  }
+
+  async getOrder(orderId: string): Promise<ProviderOrder> {
+    return toProviderOrder(await this.client.getOrder(orderId));
+  }
+
+  async findOrderByExternalId(externalId: string): Promise<ProviderOrder | null> {
+    const found = await this.client.findOrderByExternalId(externalId);
+    return found ? toProviderOrder(found) : null;
+  }
+
+  async cancelOrder(orderId: string): Promise<ProviderOrder> {
+    return toProviderOrder(await this.client.cancelOrder(orderId));
+  }
+
+  verifyWebhook(rawBody: string, headers: Record<string, string | string[]>): boolean {
+    if (!this.shop.webhookSecret) {
+      return true;
+    }
+    const signature = getHeader(headers, 'printify-signature');
+    if (!signature) {
+      return false;
+    }
+    const hmac = crypto.createHmac('sha256', this.shop.webhookSecret).update(rawBody).digest('hex');
+    const expected = Buffer.from(hmac, 'hex');
+    const provided = Buffer.from(signature, 'hex');
+    return expected.length === provided.length && crypto.timingSafeEqual(expected, provided);
+  }
+
+  parseWebhook(payload: unknown): ProviderWebhookEvent | null {
+    const printify = payload as PrintifyWebhookPayload | null;
+    if (!printify || typeof printify.event !== 'string') {
+      return null;
+    }
+    const shopId = printify.data?.shop_id;
+    return {
+      id: webhookEventId(printify),
+      event: printify.event,
+      action: resolveWebhookAction(printify),
+      orderId: printify.data?.id,
+      externalId: printify.data?.external_id,
+      accountId: shopId !== undefined && shopId !== '' ? String(shopId) : undefined,
+      reason: printify.data?.reason,
+      shipments: (printify.data?.shipments ?? []).map(toShipment),
+    };
+  }
+}
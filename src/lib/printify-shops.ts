@@ -0,0 +1,81 @@
+import type { AutomationConfig } from '../config.js';
+import { PrintifyClient } from './printify-client.js';
+
+export interface PrintifyShopConfig {
+  /** Name used by SKU mappings and channels to refer to the shop. */
+  key: string;
+  shopId: string;
+  apiToken: string;
+  shippingMethod?: number;
+  /** Overrides PRINTIFY_WEBHOOK_SECRET for webhooks coming from this shop. */
+  webhookSecret?: string;
+}
+
+export interface PrintifyShopClientOptions {
+  baseUrl?: string;
+  mock?: boolean;
+  lookupPages?: number;
+}
+
+/**
+ * Every Printify shop of the deployment, addressable by key or shop ID, with
+ * one lazily created client per shop.
+ */
+export class PrintifyShopRegistry {
+  private readonly clients = new Map<string, PrintifyClient>();
+
+  constructor(
+    private readonly shops: PrintifyShopConfig[],
+    private readonly clientOptions: PrintifyShopClientOptions = {},
+  ) {}
+
+  list(): PrintifyShopConfig[] {
+    return this.shops;
+  }
+
+  find(keyOrId: string | number | null | undefined): PrintifyShopConfig | undefined {
+    if (keyOrId === null || keyOrId === undefined || keyOrId === '') {
+      return undefined;
+    }
+    const value = String(keyOrId);
+    return this.shops.find((shop) => shop.key === value) ?? this.shops.find((shop) => shop.shopId === value);
+  }
+
+  get(keyOrId: string | number): PrintifyShopConfig {
+    const shop = this.find(keyOrId);
+    if (!shop) {
+      throw new Error(`Unknown Printify shop '${keyOrId}'`);
+    }
+    return shop;
+  }
+
+  client(shop: PrintifyShopConfig): PrintifyClient {
+    let client = this.clients.get(shop.key);
+    if (!client) {
+      client = new PrintifyClient({
+        apiToken: shop.apiToken,
+        shopId: shop.shopId,
+        baseUrl: this.clientOptions.baseUrl,
+        mock: this.clientOptions.mock,
+        lookupPages: this.clientOptions.lookupPages,
+      });
+      this.clients.set(shop.key, client);
+    }
+    return client;
+  }
+}
+
+/**
+ * Registry over `cfg.printify.shops`. `mock` defaults to PRINTIFY_API_MOCK;
+ * the fulfillment job also forces it on in dry-run.
+ */
+export function createShopRegistry(
+  cfg: AutomationConfig,
+  mock: boolean = cfg.printify.mockApi,
+): PrintifyShopRegistry {
+  return new PrintifyShopRegistry(cfg.printify.shops, {
+    baseUrl: cfg.printify.apiBaseUrl,
+    mock,
+    lookupPages: cfg.printify.orderLookupPages,
+  });
+}
@@ -0,0 +1,400 @@
+import fs from 'fs';
+import path from 'path';
+
+export interface ProductMappingEntry {
+  /**
+   * Existing Printify product (a hex string in Printify's API; numbers are kept
+   * for older mappings). Unset when the product is created on the fly from `blueprintId`.
+   */
+  productId?: string | number;
+  variantId: number;
+  /** Key or ID of the Printify shop that sells the SKU; the channel's shop when unset. */
+  shop?: string;
+  /** Fulfillment provider of the SKU; `printify` when unset. */
+  provider?: string;
+  /** Overrides the shop / channel shipping method for orders containing the SKU. */
+  shippingMethod?: number;
+  /** ISO country codes the row applies to; unset means every country. */
+  countries?: string[];
+  blueprintId?: number;
+  printProviderId?: number;
+  /** Print area position → image URL, for products created on the fly. */
+  printAreas?: Record<string, string>;
+  /** Further rows for the same SKU, each limited to its own countries. */
+  alternatives?: ProductMappingEntry[];
+}
+
+export type ProductMapping = Record<string, ProductMappingEntry>;
+
+export interface MappingIssue {
+  file: string;
+  /** 1-based line of the row in the file. */
+  line: number;
+  message: string;
+}
+
+/** Raised with every invalid row of a mapping file, not just the first. */
+export class MappingFileError extends Error {
+  constructor(readonly issues: MappingIssue[]) {
+    super(
+      `Invalid product mapping:\n${issues.map((issue) => `${issue.file}:${issue.line}: ${issue.message}`).join('\n')}`,
+    );
+    this.name = 'MappingFileError';
+  }
+}
+
+/** Column names accepted in CSV headers and JSON rows, normalised to entry fields. */
+const COLUMN_ALIASES: Record<string, keyof ProductMappingEntry | 'sku'> = {
+  sku: 'sku',
+  productid: 'productId',
+  variantid: 'variantId',
+  shop: 'shop',
+  provider: 'provider',
+  shippingmethod: 'shippingMethod',
+  countries: 'countries',
+  country: 'countries',
+  blueprintid: 'blueprintId',
+  blueprint: 'blueprintId',
+  printproviderid: 'printProviderId',
+  printareas: 'printAreas',
+};
+
+/** Column order of header-less CSV files. */
+const LEGACY_COLUMNS = ['sku', 'productId', 'variantId', 'shop', 'provider'];
+
+function normalizeColumn(name: string): keyof ProductMappingEntry | 'sku' | undefined {
+  return COLUMN_ALIASES[name.toLowerCase().replace(/[^a-z]/g, '')];
+}
+
+/**
+ * Splits CSV text into records (RFC 4180: quoted fields may hold commas,
+ * doubled quotes and line breaks). Each record keeps the line it starts on.
+ */
+export function parseCsv(text: string): Array<{ line: number; fields: string[] }> {
+  const records: Array<{ line: number; fields: string[] }> = [];
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let startLine = 1;
+
+  const endRecord = () => {
+    fields.push(field);
+    if (fields.some((value) => value.trim() !== '')) {
+      records.push({ line: startLine, fields: fields.map((value) => value.trim()) });
+    }
+    fields = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+      continue;
+    }
+    if (char === '"' && field.trim() === '') {
+      field = '';
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      startLine = line;
+    } else {
+      field += char;
+    }
+  }
+  endRecord();
+  return records;
+}
+
+function parseNumber(value: unknown, column: string, issues: string[]): number | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const parsed = typeof value === 'number' ? value : Number(value);
+  if (!Number.isFinite(parsed)) {
+    issues.push(`${column} must be a number`);
+    return undefined;
+  }
+  return parsed;
+}
+
+function parseProductId(value: unknown): string | number | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  if (typeof value === 'number') {
+    return value;
+  }
+  const text = String(value).trim();
+  return /^\d+$/.test(text) ? Number(text) : text;
+}
+
+function parseCountries(value: unknown, issues: string[]): string[] | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const list = Array.isArray(value) ? value.map(String) : String(value).split(/[\s,;|]+/);
+  const countries = list.map((code) => code.trim().toUpperCase()).filter(Boolean);
+  const invalid = countries.filter((code) => !/^[A-Z]{2}$/.test(code));
+  if (invalid.length > 0) {
+    issues.push(`countries must be ISO 3166-1 alpha-2 codes (got ${invalid.join(', ')})`);
+  }
+  return countries.length > 0 ? countries : undefined;
+}
+
+function parsePrintAreas(value: unknown, issues: string[]): Record<string, string> | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  let parsed = value;
+  if (typeof value === 'string') {
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      issues.push('printAreas must be a JSON object, e.g. {"front":"https://…/art.png"}');
+      return undefined;
+    }
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    issues.push('printAreas must be an object of position → image URL');
+    return undefined;
+  }
+  const areas = parsed as Record<string, unknown>;
+  if (Object.values(areas).some((url) => typeof url !== 'string' || !url)) {
+    issues.push('printAreas values must be image URLs');
+    return undefined;
+  }
+  return areas as Record<string, string>;
+}
+
+/**
+ * Validates one row given as column → value. Returns the SKU and entry, or
+ * the list of problems with the row.
+ */
+function parseRow(row: Record<string, unknown>): { sku: string; entry: ProductMappingEntry } | { issues: string[] } {
+  const issues: string[] = [];
+  const sku = typeof row.sku === 'string' ? row.sku.trim() : '';
+  if (!sku) {
+    issues.push('missing sku');
+  }
+  const entry: ProductMappingEntry = {
+    productId: parseProductId(row.productId),
+    variantId: parseNumber(row.variantId, 'variantId', issues) as number,
+    shippingMethod: parseNumber(row.shippingMethod, 'shippingMethod', issues),
+    countries: parseCountries(row.countries, issues),
+    blueprintId: parseNumber(row.blueprintId, 'blueprintId', issues),
+    printProviderId: parseNumber(row.printProviderId, 'printProviderId', issues),
+    printAreas: parsePrintAreas(row.printAreas, issues),
+  };
+  if (row.shop !== undefined && row.shop !== null && row.shop !== '') entry.shop = String(row.shop);
+  if (typeof row.provider === 'string' && row.provider) entry.provider = row.provider.trim().toLowerCase();
+
+  if (entry.variantId === undefined && !issues.some((issue) => issue.startsWith('variantId'))) {
+    issues.push('missing variantId');
+  }
+  const onTheFly = entry.blueprintId !== undefined || entry.printProviderId !== undefined || entry.printAreas;
+  if (onTheFly) {
+    if (entry.productId !== undefined) {
+      issues.push('use either productId or blueprintId/printProviderId/printAreas, not both');
+    } else if (entry.blueprintId === undefined || entry.printProviderId === undefined || !entry.printAreas) {
+      issues.push('products created on the fly need blueprintId, printProviderId and printAreas');
+    }
+  } else if (entry.productId === undefined) {
+    issues.push('missing productId (or blueprintId/printProviderId/printAreas)');
+  }
+
+  if (issues.length > 0) {
+    return { issues };
+  }
+  for (const key of Object.keys(entry) as Array<keyof ProductMappingEntry>) {
+    if (entry[key] === undefined) delete entry[key];
+  }
+  return { sku, entry };
+}
+
+/** All rows of a SKU: the entry itself followed by its country-specific alternatives. */
+export function mappingRows(entry: ProductMappingEntry): ProductMappingEntry[] {
+  return [entry, ...(entry.alternatives ?? [])];
+}
+
+/**
+ * Picks the row for a destination country: a row listing the country wins over
+ * a row without restrictions. Null when every row excludes the country.
+ */
+export function resolveMappingEntry(
+  entry: ProductMappingEntry | undefined,
+  countryCode: string | null | undefined,
+): ProductMappingEntry | null {
+  if (!entry) {
+    return null;
+  }
+  const rows = mappingRows(entry);
+  const country = (countryCode ?? '').toUpperCase();
+  const row = rows.find((r) => country && r.countries?.includes(country)) ?? rows.find((r) => !r.countries);
+  if (!row) {
+    return null;
+  }
+  const { alternatives: _alternatives, ...resolved } = row;
+  return resolved;
+}
+
+/**
+ * Adds a row to the mapping. A SKU may appear several times as long as its
+ * rows do not compete for the same country (or both apply everywhere).
+ */
+function addRow(mapping: ProductMapping, sku: string, entry: ProductMappingEntry): string | null {
+  const existing = mapping[sku];
+  if (!existing) {
+    mapping[sku] = entry;
+    return null;
+  }
+  for (const row of mappingRows(existing)) {
+    if (!row.countries && !entry.countries) {
+      return `duplicate sku ${sku}; add countries to tell the rows apart`;
+    }
+    const overlap = row.countries?.filter((country) => entry.countries?.includes(country)) ?? [];
+    if (overlap.length > 0) {
+      return `sku ${sku} is already mapped for ${overlap.join(', ')}`;
+    }
+  }
+  existing.alternatives = [...(existing.alternatives ?? []), entry];
+  return null;
+}
+
+/** Parses a CSV mapping, with a header row or in the legacy `sku,productId,variantId,shop,provider` column order. */
+export function parseCsvMapping(text: string, file: string): ProductMapping {
+  const records = parseCsv(text);
+  const mapping: ProductMapping = {};
+  const issues: MappingIssue[] = [];
+
+  let columns: Array<string | undefined> = LEGACY_COLUMNS;
+  if (records.length > 0 && records[0].fields.some((field) => normalizeColumn(field) === 'sku')) {
+    const header = records.shift()!;
+    columns = header.fields.map((field) => normalizeColumn(field));
+    header.fields.forEach((field, index) => {
+      if (!columns[index]) {
+        issues.push({ file, line: header.line, message: `unknown column "${field}"` });
+      }
+    });
+  }
+
+  for (const record of records) {
+    if (record.fields.length > columns.length) {
+      issues.push({ file, line: record.line, message: `expected at most ${columns.length} columns` });
+      continue;
+    }
+    const row: Record<string, unknown> = {};
+    record.fields.forEach((value, index) => {
+      const column = columns[index];
+      if (column) row[column] = value;
+    });
+    const parsed = parseRow(row);
+    if ('issues' in parsed) {
+      issues.push(...parsed.issues.map((message) => ({ file, line: record.line, message })));
+      continue;
+    }
+    const conflict = addRow(mapping, parsed.sku, parsed.entry);
+    if (conflict) {
+      issues.push({ file, line: record.line, message: conflict });
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new MappingFileError(issues);
+  }
+  return mapping;
+}
+
+/** Best-effort line of a JSON row, found through its SKU; 1 when it cannot be located. */
+function jsonLine(text: string, sku: string | undefined, from = 0): number {
+  const index = sku ? text.indexOf(JSON.stringify(sku), from) : -1;
+  return index < 0 ? 1 : text.slice(0, index).split('\n').length;
+}
+
+/**
+ * Accepts either `{ "SKU": row | row[] }` or `[{ "sku": "SKU", ...row }]`,
+ * with the same columns as the CSV format.
+ */
+export function parseJsonMapping(parsed: unknown, file: string, text = ''): ProductMapping {
+  const rows: Array<{ line: number; raw: Record<string, unknown> }> = [];
+  const asRow = (value: unknown) => (value && typeof value === 'object' ? (value as Record<string, unknown>) : {});
+  if (Array.isArray(parsed)) {
+    let cursor = 0;
+    for (const value of parsed) {
+      const raw = asRow(value);
+      const sku = typeof raw.sku === 'string' ? raw.sku : undefined;
+      const line = jsonLine(text, sku, cursor);
+      if (sku && text) {
+        cursor = Math.max(cursor, text.indexOf(JSON.stringify(sku), cursor) + 1);
+      }
+      rows.push({ line, raw });
+    }
+  } else if (parsed && typeof parsed === 'object') {
+    for (const [sku, value] of Object.entries(parsed as Record<string, unknown>)) {
+      const line = jsonLine(text, sku);
+      for (const row of Array.isArray(value) ? value : [value]) {
+        rows.push({ line, raw: { ...asRow(row), sku } });
+      }
+    }
+  } else {
+    throw new MappingFileError([{ file, line: 1, message: 'expected an object keyed by SKU or an array of rows' }]);
+  }
+
+  const mapping: ProductMapping = {};
+  const issues: MappingIssue[] = [];
+  for (const { line, raw } of rows) {
+    const row: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(raw)) {
+      const column = normalizeColumn(key);
+      if (column) row[column] = value;
+    }
+    const parsedRow = parseRow(row);
+    if ('issues' in parsedRow) {
+      issues.push(...parsedRow.issues.map((message) => ({ file, line, message })));
+      continue;
+    }
+    const conflict = addRow(mapping, parsedRow.sku, parsedRow.entry);
+    if (conflict) {
+      issues.push({ file, line, message: conflict });
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new MappingFileError(issues);
+  }
+  return mapping;
+}
+
+/** Loads a `.csv` or `.json` mapping file, relative paths resolving from the working directory. */
+export function loadMappingFile(filePath: string): ProductMapping {
+  const resolved = path.isAbsolute(filePath) ? filePath : path.join(process.cwd(), filePath);
+  if (!fs.existsSync(resolved)) {
+    throw new Error(`Product mapping file not found at path: ${resolved}`);
+  }
+  const text = fs.readFileSync(resolved, 'utf8').replace(/^﻿/, '');
+  const file = path.basename(resolved);
+  if (path.extname(resolved).toLowerCase() === '.json') {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch (error) {
+      throw new MappingFileError([{ file, line: 1, message: `invalid JSON: ${(error as Error).message}` }]);
+    }
+    return parseJsonMapping(parsed, file, text);
+  }
+  return parseCsvMapping(text, file);
+}
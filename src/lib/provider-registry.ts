@@ -0,0 +1,67 @@
+import type { AutomationConfig, ChannelConfig, ProductMapping } from '../config.js';
+import { FulfillmentProvider } from './fulfillment-provider.js';
+import { PrintifyProvider } from './printify-provider.js';
+import { PrintifyShopRegistry, createShopRegistry } from './printify-shops.js';
+
+/** Providers that SKU mappings may name. Only Printify is implemented so far. */
+export const FULFILLMENT_PROVIDERS = ['printify'];
+
+export const DEFAULT_PROVIDER = 'printify';
+
+/**
+ * Every provider account of the deployment. Printify contributes one account
+ * per registered shop.
+ */
+export class ProviderRegistry {
+  private readonly providers: FulfillmentProvider[];
+
+  constructor(shops: PrintifyShopRegistry) {
+    this.providers = shops.list().map((shop) => new PrintifyProvider(shop, shops.client(shop)));
+  }
+
+  list(): FulfillmentProvider[] {
+    return this.providers;
+  }
+
+  byKey(key: string): FulfillmentProvider | undefined {
+    return this.providers.find((provider) => provider.key === key);
+  }
+
+  /**
+   * Finds an account of the named provider by account key or ID; without an
+   * account, the provider's first account.
+   */
+  find(name: string, account?: string | number | null): FulfillmentProvider | undefined {
+    const candidates = this.providers.filter((provider) => provider.name === name);
+    if (account === undefined || account === null || account === '') {
+      return candidates[0];
+    }
+    const value = String(account);
+    return (
+      candidates.find((provider) => provider.key === `${name}:${value}`) ??
+      candidates.find((provider) => provider.accountId === value)
+    );
+  }
+
+  /** The account that fulfills a mapped SKU; the channel's shop unless the entry names one. */
+  forMapping(entry: ProductMapping[string], channel: ChannelConfig): FulfillmentProvider {
+    const name = entry.provider ?? DEFAULT_PROVIDER;
+    const account = entry.shop ?? channel.printifyShopId;
+    const provider = this.find(name, account);
+    if (!provider) {
+      throw new Error(`No ${name} account '${account}' is configured`);
+    }
+    return provider;
+  }
+}
+
+/**
+ * Registry over the configured provider accounts. `mock` defaults to
+ * PRINTIFY_API_MOCK; the fulfillment job also forces it on in dry-run.
+ */
+export function createProviderRegistry(
+  cfg: AutomationConfig,
+  mock: boolean = cfg.printify.mockApi,
+): ProviderRegistry {
+  return new ProviderRegistry(createShopRegistry(cfg, mock));
+}
@@ -0,0 +1,53 @@
+import { BaseNotifier, Notification, NotifierOptions } from './notifier.js';
+
+export interface SlackNotifierOptions extends NotifierOptions {
+  name: string;
+  /** Incoming webhook URL (`https://hooks.slack.com/services/…`). */
+  webhookUrl: string;
+}
+
+const SEVERITY_ICONS: Record<Notification['severity'], string> = {
+  info: ':robot_face:',
+  warning: ':warning:',
+  critical: ':rotating_light:',
+};
+
+function escapeSlack(input: string): string {
+  return input.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/** Posts notifications to a Slack incoming webhook as mrkdwn text. */
+export class SlackNotifier extends BaseNotifier {
+  readonly name: string;
+
+  constructor(private readonly options: SlackNotifierOptions) {
+    super(options);
+    this.name = options.name;
+  }
+
+  protected async deliver(notification: Notification): Promise<void> {
+    const label = notification.dryRun ? ' _(dry-run)_' : '';
+    const lines = [
+      `${SEVERITY_ICONS[notification.severity]} ${notification.icon} *${escapeSlack(notification.title)}*${label}`,
+    ];
+    if (notification.details) {
+      lines.push('```' + escapeSlack(notification.details) + '```');
+    }
+    for (const section of notification.sections ?? []) {
+      lines.push(`*${escapeSlack(section.title)} (${section.count})*`, '```' + escapeSlack(section.lines.join('\n')) + '```');
+    }
+
+    try {
+      const response = await fetch(this.options.webhookUrl, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ text: lines.join('\n') }),
+      });
+      if (!response.ok) {
+        console.error(`Failed to deliver Slack notification (${this.name})`, await response.text());
+      }
+    } catch (error) {
+      console.error(`Slack request error (${this.name})`, error);
+    }
+  }
+}
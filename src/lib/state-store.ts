@@ -0,0 +1,451 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+export interface OrderAttempt {
+  at: string;
+  status: string;
+  step?: string;
+  error?: string;
+}
+
+export interface OrderRecord {
+  orderCode: string;
+  orderId?: string;
+  /** First Printify order created for the Vendure order. */
+  printifyOrderId?: string;
+  /** Every provider order of the Vendure order (one per provider account), keyed by provider order ID. */
+  providerOrders?: Record<string, ProviderOrderLink>;
+  /** Set once the Printify draft has been sent to production. */
+  sentToProductionAt?: string;
+  /** Outcome of propagating a Vendure cancellation to Printify. */
+  cancellation?: OrderCancellation;
+  fulfillmentIds: string[];
+  /** Printify shipment key (tracking number) → Vendure fulfillment carrying it. */
+  shipments?: Record<string, string>;
+  /** Order line IDs left for manual fulfillment; used to alert only when they change. */
+  heldLines?: string[];
+  /** Operator approval, for orders the approval rules parked. */
+  approval?: OrderApproval;
+  attempts: OrderAttempt[];
+  lastError?: string | null;
+  updatedAt: string;
+}
+
+export interface ProviderOrderLink {
+  /** Provider name, e.g. `printify`. */
+  provider: string;
+  /** Provider account (the Printify shop ID). */
+  accountId: string;
+  /** Vendure fulfillment covering the lines sent to this provider order. */
+  fulfillmentId?: string;
+}
+
+export interface OrderApproval {
+  status: 'pending' | 'approved' | 'rejected';
+  /** Why approval was required, e.g. "total 250.00 USD". */
+  reasons: string[];
+  /** Channel the order was found in, so the decision can be noted on it. */
+  channel: string;
+  requestedAt: string;
+  decidedAt?: string;
+  decidedBy?: string;
+}
+
+export interface OrderCancellation {
+  /** `no-provider-order` when no account had an order for it, so later runs do not search again. */
+  status: 'cancelled' | 'too-late' | 'no-provider-order';
+  at: string;
+  providerStatus?: string;
+}
+
+export interface OrderRecordPatch {
+  orderId?: string;
+  printifyOrderId?: string;
+  /** Merged into `providerOrders`; a Printify order also fills `printifyOrderId` when it is still empty. */
+  providerOrder?: { id: string } & Partial<ProviderOrderLink>;
+  sentToProductionAt?: string;
+  cancellation?: OrderCancellation;
+  /** Appended to `fulfillmentIds` if not already present. */
+  fulfillmentId?: string;
+  shipment?: { key: string; fulfillmentId: string };
+  /** Replaces `heldLines`. */
+  heldLines?: string[];
+  /** Replaces `approval`. */
+  approval?: OrderApproval;
+  /** Appended to `attempts`; its `error` also becomes `lastError`. */
+  attempt?: Omit<OrderAttempt, 'at'>;
+}
+
+export interface ProcessedEvent {
+  event: string;
+  orderCode?: string;
+  /** When the event was applied, or claimed while `pending`. */
+  processedAt: string;
+  /** Set while a handler is applying the event; see `StateStore.claimEvent`. */
+  pending?: boolean;
+}
+
+export interface DeadLetter {
+  id: string;
+  source: string;
+  payload: unknown;
+  error: string;
+  attempts: number;
+  firstFailedAt: string;
+  lastFailedAt: string;
+}
+
+/** Operator switches and run bookkeeping shared by the jobs and the Telegram bot. */
+export interface AutomationControl {
+  /** Set while operators have paused the scheduled jobs (`/pause`). */
+  paused?: { at: string; by?: string } | null;
+  /** Summary of the most recent fulfillment run, for `/status`. */
+  lastRun?: RunSummary;
+}
+
+export interface RunSummary {
+  at: string;
+  dryRun: boolean;
+  fulfilled: number;
+  skipped: number;
+  failed: number;
+  summary: string;
+}
+
+export interface AutomationControlPatch {
+  /** `null` resumes. */
+  paused?: { by?: string } | null;
+  lastRun?: Omit<RunSummary, 'at'>;
+}
+
+/**
+ * Persistence for fulfillment jobs. Implementations only need to honour this
+ * contract, so a KV or Postgres backend can replace the file store without
+ * touching the pipeline or the webhook.
+ */
+export interface StateStore {
+  getOrder(orderCode: string): Promise<OrderRecord | null>;
+  findOrderByProviderOrderId(providerOrderId: string): Promise<OrderRecord | null>;
+  updateOrder(orderCode: string, patch: OrderRecordPatch): Promise<OrderRecord>;
+  getProcessedEvent(eventId: string): Promise<ProcessedEvent | null>;
+  /**
+   * Atomically reserves an event ID before it is applied. False when the event
+   * was already applied or another handler holds an unexpired claim.
+   */
+  claimEvent(eventId: string, event: Omit<ProcessedEvent, 'processedAt' | 'pending'>): Promise<boolean>;
+  /** Drops a claim that did not end in `markEventProcessed`, so a retry can apply the event. */
+  releaseEvent(eventId: string): Promise<void>;
+  markEventProcessed(eventId: string, event: Omit<ProcessedEvent, 'processedAt' | 'pending'>): Promise<void>;
+  /** Stores a payload that failed to process; repeated failures of the same ID bump `attempts`. */
+  addDeadLetter(entry: { id: string; source: string; payload: unknown; error: string }): Promise<DeadLetter>;
+  listDeadLetters(): Promise<DeadLetter[]>;
+  removeDeadLetter(id: string): Promise<void>;
+  getControl(): Promise<AutomationControl>;
+  updateControl(patch: AutomationControlPatch): Promise<AutomationControl>;
+}
+
+export interface StateData {
+  orders: Record<string, OrderRecord>;
+  /** Webhook event ID → when it was applied; used to drop retries. */
+  events: Record<string, ProcessedEvent>;
+  deadLetters: Record<string, DeadLetter>;
+  control: AutomationControl;
+}
+
+const MAX_ATTEMPTS_PER_ORDER = 20;
+const MAX_PROCESSED_EVENTS = 2000;
+/** A claim older than this belongs to a handler that crashed, and may be taken over. */
+const EVENT_CLAIM_TTL_MS = 120_000;
+
+/** How long a writer waits for the state file lock, and when a left-over lock counts as abandoned. */
+const LOCK_TIMEOUT_MS = 10_000;
+// A lock is held for one JSON read and write, far below this. Kept under the
+// timeout so a crashed writer's lock is reclaimed while others still wait.
+const LOCK_STALE_MS = 5_000;
+const LOCK_RETRY_MS = 50;
+
+function emptyState(): StateData {
+  return { orders: {}, events: {}, deadLetters: {}, control: {} };
+}
+
+function trimEvents(data: StateData): void {
+  const ids = Object.keys(data.events);
+  if (ids.length > MAX_PROCESSED_EVENTS) {
+    // Insertion order is chronological, so the oldest IDs come first.
+    for (const id of ids.slice(0, ids.length - MAX_PROCESSED_EVENTS)) {
+      delete data.events[id];
+    }
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Keeps the whole state in one JSON document. Subclasses decide where the
+ * document lives by overriding `read` and `write`, and how concurrent
+ * writers are kept apart by overriding `withLock`.
+ */
+export class MemoryStateStore implements StateStore {
+  private data: StateData = emptyState();
+  /** Serializes the read-modify-write cycles of this instance. */
+  private pending: Promise<unknown> = Promise.resolve();
+
+  protected async read(): Promise<StateData> {
+    return this.data;
+  }
+
+  protected async write(data: StateData): Promise<void> {
+    this.data = data;
+  }
+
+  /** Runs one read-modify-write cycle exclusively; nothing to guard beyond this instance in memory. */
+  protected async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    return fn();
+  }
+
+  /** Applies `change` to a fresh copy of the document and writes it back, one cycle at a time. */
+  protected update<T>(change: (data: StateData) => T): Promise<T> {
+    const run = this.pending.then(() =>
+      this.withLock(async () => {
+        const data = await this.read();
+        const result = change(data);
+        await this.write(data);
+        return result;
+      }),
+    );
+    this.pending = run.catch(() => undefined);
+    return run;
+  }
+
+  async getOrder(orderCode: string): Promise<OrderRecord | null> {
+    const data = await this.read();
+    return data.orders[orderCode] ?? null;
+  }
+
+  async findOrderByProviderOrderId(providerOrderId: string): Promise<OrderRecord | null> {
+    const data = await this.read();
+    return (
+      Object.values(data.orders).find(
+        (record) => record.printifyOrderId === providerOrderId || Boolean(record.providerOrders?.[providerOrderId]),
+      ) ?? null
+    );
+  }
+
+  async updateOrder(orderCode: string, patch: OrderRecordPatch): Promise<OrderRecord> {
+    return this.update((data) => this.applyOrderPatch(data, orderCode, patch));
+  }
+
+  private applyOrderPatch(data: StateData, orderCode: string, patch: OrderRecordPatch): OrderRecord {
+    const now = new Date().toISOString();
+    const record: OrderRecord = data.orders[orderCode] ?? {
+      orderCode,
+      fulfillmentIds: [],
+      attempts: [],
+      updatedAt: now,
+    };
+
+    if (patch.orderId) record.orderId = patch.orderId;
+    if (patch.printifyOrderId) record.printifyOrderId = patch.printifyOrderId;
+    if (patch.providerOrder) {
+      const { id, ...link } = patch.providerOrder;
+      const current = record.providerOrders?.[id];
+      const provider = link.provider ?? current?.provider ?? 'printify';
+      record.providerOrders = {
+        ...(record.providerOrders ?? {}),
+        [id]: {
+          provider,
+          accountId: link.accountId ?? current?.accountId ?? '',
+          fulfillmentId: link.fulfillmentId ?? current?.fulfillmentId,
+        },
+      };
+      if (provider === 'printify') {
+        record.printifyOrderId ??= id;
+      }
+    }
+    if (patch.sentToProductionAt) record.sentToProductionAt = patch.sentToProductionAt;
+    if (patch.cancellation) record.cancellation = patch.cancellation;
+    if (patch.fulfillmentId && !record.fulfillmentIds.includes(patch.fulfillmentId)) {
+      record.fulfillmentIds.push(patch.fulfillmentId);
+    }
+    if (patch.shipment) {
+      record.shipments = { ...(record.shipments ?? {}), [patch.shipment.key]: patch.shipment.fulfillmentId };
+    }
+    if (patch.heldLines) {
+      record.heldLines = patch.heldLines;
+    }
+    if (patch.approval) {
+      record.approval = patch.approval;
+    }
+    if (patch.attempt) {
+      record.attempts.push({ at: now, ...patch.attempt });
+      record.attempts = record.attempts.slice(-MAX_ATTEMPTS_PER_ORDER);
+      record.lastError = patch.attempt.error ?? null;
+    }
+    record.updatedAt = now;
+
+    data.orders[orderCode] = record;
+    return record;
+  }
+
+  async getProcessedEvent(eventId: string): Promise<ProcessedEvent | null> {
+    const data = await this.read();
+    return data.events[eventId] ?? null;
+  }
+
+  async claimEvent(eventId: string, event: Omit<ProcessedEvent, 'processedAt' | 'pending'>): Promise<boolean> {
+    return this.update((data) => {
+      const existing = data.events[eventId];
+      if (existing && !(existing.pending && Date.now() - Date.parse(existing.processedAt) > EVENT_CLAIM_TTL_MS)) {
+        return false;
+      }
+      data.events[eventId] = { ...event, processedAt: new Date().toISOString(), pending: true };
+      trimEvents(data);
+      return true;
+    });
+  }
+
+  async releaseEvent(eventId: string): Promise<void> {
+    await this.update((data) => {
+      if (data.events[eventId]?.pending) {
+        delete data.events[eventId];
+      }
+    });
+  }
+
+  async markEventProcessed(eventId: string, event: Omit<ProcessedEvent, 'processedAt' | 'pending'>): Promise<void> {
+    await this.update((data) => {
+      // Re-inserted so the entry moves to the end of the chronological order.
+      delete data.events[eventId];
+      data.events[eventId] = { ...event, processedAt: new Date().toISOString() };
+      trimEvents(data);
+    });
+  }
+
+  async addDeadLetter(entry: { id: string; source: string; payload: unknown; error: string }): Promise<DeadLetter> {
+    return this.update((data) => {
+      const now = new Date().toISOString();
+      const existing = data.deadLetters[entry.id];
+      const letter: DeadLetter = {
+        ...entry,
+        attempts: (existing?.attempts ?? 0) + 1,
+        firstFailedAt: existing?.firstFailedAt ?? now,
+        lastFailedAt: now,
+      };
+      data.deadLetters[entry.id] = letter;
+      return letter;
+    });
+  }
+
+  async listDeadLetters(): Promise<DeadLetter[]> {
+    const data = await this.read();
+    return Object.values(data.deadLetters);
+  }
+
+  async removeDeadLetter(id: string): Promise<void> {
+    await this.update((data) => {
+      delete data.deadLetters[id];
+    });
+  }
+
+  async getControl(): Promise<AutomationControl> {
+    const data = await this.read();
+    return data.control;
+  }
+
+  async updateControl(patch: AutomationControlPatch): Promise<AutomationControl> {
+    return this.update((data) => {
+      const now = new Date().toISOString();
+      const control: AutomationControl = { ...data.control };
+      if (patch.paused !== undefined) {
+        control.paused = patch.paused ? { at: now, by: patch.paused.by } : null;
+      }
+      if (patch.lastRun) {
+        control.lastRun = { ...patch.lastRun, at: now };
+      }
+      data.control = control;
+      return control;
+    });
+  }
+}
+
+/**
+ * Stores the document in a JSON file. Writers from other processes (the
+ * webhook, cron jobs and the bot may run at once) take turns through a
+ * `<file>.lock` file, so no update overwrites another.
+ */
+export class FileStateStore extends MemoryStateStore {
+  constructor(private readonly filePath: string) {
+    super();
+  }
+
+  protected async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    const lockPath = `${this.filePath}.lock`;
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+    for (;;) {
+      try {
+        const handle = await fs.promises.open(lockPath, 'wx');
+        await handle.writeFile(String(process.pid));
+        await handle.close();
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+        // A writer that crashed mid-update leaves its lock behind.
+        const stat = await fs.promises.stat(lockPath).catch(() => null);
+        if (stat && Date.now() - stat.mtimeMs > LOCK_STALE_MS) {
+          await fs.promises.rm(lockPath, { force: true });
+          continue;
+        }
+        if (Date.now() > deadline) {
+          throw new Error(`State file ${this.filePath} is locked by another process`);
+        }
+        await sleep(LOCK_RETRY_MS);
+      }
+    }
+    try {
+      return await fn();
+    } finally {
+      await fs.promises.rm(lockPath, { force: true });
+    }
+  }
+
+  protected async read(): Promise<StateData> {
+    if (!fs.existsSync(this.filePath)) {
+      return emptyState();
+    }
+    const raw = await fs.promises.readFile(this.filePath, 'utf8');
+    try {
+      return { ...emptyState(), ...(JSON.parse(raw) as Partial<StateData>) };
+    } catch (error) {
+      throw new Error(`State file ${this.filePath} is not valid JSON: ${(error as Error).message}`);
+    }
+  }
+
+  protected async write(data: StateData): Promise<void> {
+    const tmp = `${this.filePath}.${process.pid}.tmp`;
+    await fs.promises.writeFile(tmp, JSON.stringify(data, null, 2), 'utf8');
+    await fs.promises.rename(tmp, this.filePath);
+  }
+}
+
+export interface StateStoreOptions {
+  driver: 'file' | 'memory';
+  filePath?: string;
+}
+
+/** Used when AUTOMATION_STATE_FILE is unset. Only lasts as long as the instance's temporary directory. */
+export function defaultStateFilePath(): string {
+  return path.join(os.tmpdir(), 'vendure-automations', 'state.json');
+}
+
+export function createStateStore(options: StateStoreOptions): StateStore {
+  if (options.driver === 'memory') {
+    return new MemoryStateStore();
+  }
+  return new FileStateStore(options.filePath ?? defaultStateFilePath());
+}
@@ -1,12 +1,64 @@
-export interface TelegramOptions {
+import { NotificationEvent, localeStrings, renderMessage } from './messages.js';
+import { BaseNotifier, DigestSection, Notification, NotifierOptions } from './notifier.js';
+
+export interface TelegramOptions extends NotifierOptions {
   enabled: boolean;
   botToken: string;
   chatId: string;
-  dryRun: boolean;
 }
 
-export class TelegramReporter {
-  constructor(private readonly options: TelegramOptions) {}
+/** The parts of a Telegram bot update the command handler reads. */
+export interface TelegramUpdate {
+  update_id: number;
+  message?: TelegramMessage;
+  /** Sent when someone presses an inline keyboard button. */
+  callback_query?: TelegramCallbackQuery;
+}
+
+export interface TelegramCallbackQuery {
+  id: string;
+  from: { id: number; username?: string; first_name?: string };
+  /** The message carrying the keyboard. */
+  message?: TelegramMessage;
+  data?: string;
+}
+
+/** `callback_data` is limited to 64 bytes by Telegram. */
+export interface TelegramButton {
+  text: string;
+  callbackData: string;
+}
+
+export interface TelegramMessage {
+  message_id: number;
+  text?: string;
+  chat: { id: number; type?: string };
+  from?: { id: number; username?: string; first_name?: string };
+}
+
+const MAX_REPLY_LENGTH = 3500;
+
+/** Retries of a rate-limited call; longer `retry_after` waits are not worth a serverless run. */
+const MAX_RATE_LIMIT_RETRIES = 3;
+const MAX_RETRY_AFTER_SECONDS = 30;
+
+const SECTION_ICONS: Record<DigestSection['outcome'], string> = {
+  success: '✅',
+  failure: '❌',
+  skipped: '⏭️',
+  other: 'ℹ️',
+};
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export class TelegramReporter extends BaseNotifier {
+  readonly name = 'telegram';
+
+  constructor(private readonly options: TelegramOptions) {
+    super(options);
+  }
 
   private escapeHtml(input: string): string {
     return input
@@ -15,55 +67,138 @@ export class TelegramReporter {
       .replace(/>/g, '&gt;');
   }
 
-  private pickIcon(step: string): string {
-    const s = step.toLowerCase();
-    if (s.includes('bắt đầu') || s.includes('start')) return '🚀';
-    if (s.includes('hoàn thành') || s.includes('complete') || s.includes('processed')) return '✅';
-    if (s.includes('lỗi') || s.includes('error') || s.includes('failed')) return '❌';
-    if (s.includes('cập nhật') || s.includes('update') || s.includes('updated')) return '🛠️';
-    if (s.includes('chuyển') || s.includes('transition')) return '🔄';
-    return this.options.dryRun ? '🧪' : '🤖';
-  }
-
-  private async postMessage(text: string, parseMode: 'HTML' | 'Markdown' = 'HTML'): Promise<void> {
+  /**
+   * Calls a Bot API method; returns the `result` field, or null when disabled
+   * or the call failed. Rate-limited calls (429) are retried after the
+   * `retry_after` Telegram asks for.
+   */
+  private async callApi<T>(method: string, body: Record<string, unknown>): Promise<T | null> {
     if (!this.options.enabled) {
-      return;
+      return null;
     }
 
-    const url = `https://api.telegram.org/bot${this.options.botToken}/sendMessage`;
-    try {
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: { 'content-type': 'application/json' },
-        body: JSON.stringify({
-          chat_id: this.options.chatId,
-          text,
-          parse_mode: parseMode,
-          disable_web_page_preview: true,
-        }),
-      });
-
-      if (!response.ok) {
-        console.error('Failed to deliver Telegram message', await response.text());
+    const url = `https://api.telegram.org/bot${this.options.botToken}/${method}`;
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await fetch(url, {
+          method: 'POST',
+          headers: { 'content-type': 'application/json' },
+          body: JSON.stringify(body),
+        });
+
+        if (response.status === 429 && attempt < MAX_RATE_LIMIT_RETRIES) {
+          const payload = (await response.json().catch(() => ({}))) as { parameters?: { retry_after?: number } };
+          const retryAfter = payload.parameters?.retry_after ?? 1;
+          if (retryAfter <= MAX_RETRY_AFTER_SECONDS) {
+            console.warn(`[automation] Telegram ${method} rate-limited, retrying in ${retryAfter}s`);
+            await sleep(retryAfter * 1000);
+            continue;
+          }
+        }
+        if (!response.ok) {
+          console.error(`Failed to call Telegram ${method}`, await response.text());
+          return null;
+        }
+        const payload = (await response.json()) as { result?: T };
+        return payload.result ?? null;
+      } catch (error) {
+        console.error('Telegram request error', error);
+        return null;
       }
-    } catch (error) {
-      console.error('Telegram request error', error);
     }
   }
 
-  async notify(step: string, details?: string): Promise<void> {
-    const dryRunLabel = this.options.dryRun ? '🧪 Chế độ thử' : '🤖 Tự động';
-    const icon = this.pickIcon(step);
-    const header = `${icon} ${step}`;
-    const lines: string[] = [];
+  private async postMessage(
+    text: string,
+    parseMode: 'HTML' | 'Markdown' = 'HTML',
+    chatId: string | number = this.options.chatId,
+    replyTo?: number,
+    buttons?: TelegramButton[][],
+  ): Promise<TelegramMessage | null> {
+    return this.callApi<TelegramMessage>('sendMessage', {
+      chat_id: chatId,
+      text,
+      parse_mode: parseMode,
+      disable_web_page_preview: true,
+      ...(replyTo ? { reply_to_message_id: replyTo } : {}),
+      ...(buttons
+        ? {
+            reply_markup: {
+              inline_keyboard: buttons.map((row) =>
+                row.map((button) => ({ text: button.text, callback_data: button.callbackData })),
+              ),
+            },
+          }
+        : {}),
+    });
+  }
 
-    lines.push(`<b>${this.escapeHtml(dryRunLabel)}:</b> <b>${this.escapeHtml(header)}</b>`);
+  /** Bold `icon title` header with the details preformatted below it. */
+  private formatBody(icon: string, title: string, details?: string): string {
+    const lines = [`<b>${this.escapeHtml(`${icon} ${title}`)}</b>`];
     if (details) {
       lines.push(`<pre>${this.escapeHtml(details)}</pre>`);
     }
-    const message = lines.join('\n');
+    return lines.join('\n');
+  }
+
+  protected async deliver(notification: Notification): Promise<void> {
+    const strings = localeStrings(notification.locale);
+    const label = notification.dryRun ? strings.dryRun : strings.automation;
+    const sections = [
+      `<b>${this.escapeHtml(label)}:</b> ${this.formatBody(notification.icon, notification.title, notification.details)}`,
+      ...(notification.sections ?? []).map(
+        (section) =>
+          `<b>${this.escapeHtml(`${SECTION_ICONS[section.outcome]} ${section.title} (${section.count})`)}</b>\n` +
+          `<pre>${this.escapeHtml(section.lines.join('\n'))}</pre>`,
+      ),
+    ];
 
-    console.log(`[automation] ${dryRunLabel}: ${step} ${details ? details.replace(/\*/g, '') : ''}`);
+    // Telegram rejects messages over 4096 characters; split a digest between sections.
+    let message = '';
+    for (const section of sections) {
+      if (message && message.length + section.length + 1 > MAX_REPLY_LENGTH) {
+        await this.postMessage(message, 'HTML');
+        message = '';
+      }
+      message = message ? `${message}\n${section}` : section;
+    }
     await this.postMessage(message, 'HTML');
   }
+
+  /** Answers a bot command in the chat it came from, as preformatted text. */
+  async reply(message: TelegramMessage, text: string): Promise<void> {
+    // Telegram rejects messages over 4096 characters.
+    const body = text.length > MAX_REPLY_LENGTH ? `${text.slice(0, MAX_REPLY_LENGTH)}\n…` : text;
+    console.log(`[automation] reply to ${message.chat.id}: ${body}`);
+    await this.postMessage(`<pre>${this.escapeHtml(body)}</pre>`, 'HTML', message.chat.id, message.message_id);
+  }
+
+  /**
+   * Posts a message with inline keyboard buttons to the notification chat.
+   * Returns false when it could not be delivered, so callers can try again later.
+   */
+  async ask(event: NotificationEvent, buttons: TelegramButton[][]): Promise<boolean> {
+    const { icon, title, details } = renderMessage(event, this.locale);
+    console.log(`[automation] ${title} ${details ?? ''}`);
+    const text = this.formatBody(icon, title, details);
+    return (await this.postMessage(text, 'HTML', this.options.chatId, undefined, buttons)) !== null;
+  }
+
+  /** Stops the button's loading spinner, optionally with a short toast. */
+  async answerCallback(query: TelegramCallbackQuery, text?: string): Promise<void> {
+    await this.callApi('answerCallbackQuery', { callback_query_id: query.id, ...(text ? { text } : {}) });
+  }
+
+  /** Replaces the text of a message sent by `ask` and removes its buttons. */
+  async closeQuestion(message: TelegramMessage, event: NotificationEvent): Promise<void> {
+    const { icon, title, details } = renderMessage(event, this.locale);
+    await this.callApi('editMessageText', {
+      chat_id: message.chat.id,
+      message_id: message.message_id,
+      text: this.formatBody(icon, title, details),
+      parse_mode: 'HTML',
+      disable_web_page_preview: true,
+    });
+  }
 }
@@ -27,9 +27,26 @@ export type OrderState =
   | 'Delivered'
   | 'Cancelled';
 
+/** Every state of Vendure's default order process, for validating configured states. */
+export const ORDER_STATES: OrderState[] = [
+  'Created',
+  'AddingItems',
+  'ArrangingPayment',
+  'PaymentAuthorized',
+  'PaymentSettled',
+  'PartiallyFulfilled',
+  'Fulfilled',
+  'PartiallyShipped',
+  'Shipped',
+  'PartiallyDelivered',
+  'Delivered',
+  'Cancelled',
+];
+
 const ORDERS_TO_FULFILL_QUERY = /* GraphQL */ `
-  query OrdersToFulfill($take: Int!) {
-    orders(options: { take: $take, sort: { createdAt: ASC } }) {
+  query OrdersToFulfill($options: OrderListOptions) {
+    orders(options: $options) {
+      totalItems
       items {
         id
         code
@@ -39,6 +56,10 @@ const ORDERS_TO_FULFILL_QUERY = /* GraphQL */ `
           id
           state
           trackingCode
+          lines {
+            orderLineId
+            quantity
+          }
         }
         lines {
           id
@@ -63,7 +84,10 @@ const ORDERS_TO_FULFILL_QUERY = /* GraphQL */ `
           countryCode
           phoneNumber
         }
+        totalWithTax
+        currencyCode
         customer {
+          id
           emailAddress
         }
       }
@@ -125,6 +149,10 @@ const ORDER_BY_CODE_QUERY = /* GraphQL */ `
         id
         state
         trackingCode
+        lines {
+          orderLineId
+          quantity
+        }
       }
       lines {
         id
@@ -149,7 +177,10 @@ const ORDER_BY_CODE_QUERY = /* GraphQL */ `
         countryCode
         phoneNumber
       }
+      totalWithTax
+      currencyCode
       customer {
+        id
         emailAddress
       }
     }
@@ -183,7 +214,7 @@ const PRODUCT_BY_SLUG_QUERY = /* GraphQL */ `
 `;
 export interface GraphQLResponse<T> {
   data?: T;
-  errors?: { message: string }[];
+  errors?: { message: string; extensions?: { code?: string } }[];
 }
 
 interface RawOrderLine {
@@ -199,12 +230,17 @@ interface RawOrderLine {
   }[] | null;
 }
 
+export interface FulfillmentLineSummary {
+  orderLineId: string;
+  quantity: number;
+}
+
 interface RawOrder {
   id: string;
   code: string;
   state: OrderState;
   createdAt: string;
-  fulfillments: { id: string; state: string; trackingCode?: string | null }[];
+  fulfillments: { id: string; state: string; trackingCode?: string | null; lines?: FulfillmentLineSummary[] | null }[];
   lines: RawOrderLine[];
   shippingAddress?: {
     fullName?: string | null;
@@ -218,7 +254,11 @@ interface RawOrder {
     countryCode?: string | null;
     phoneNumber?: string | null;
   } | null;
+  /** Minor currency units, e.g. cents. */
+  totalWithTax?: number;
+  currencyCode?: string;
   customer?: {
+    id?: string;
     emailAddress?: string | null;
   } | null;
 }
@@ -234,15 +274,30 @@ export interface OrderLineSummary {
   };
 }
 
+export interface FulfillmentSummary {
+  id: string;
+  state: string;
+  trackingCode?: string | null;
+  /**
+   * Order lines this fulfillment covers: one provider account's lines (or one
+   * shipment's, after a split), or the manual lines. Held lines are in no
+   * fulfillment. Missing on Admin APIs that do not expose `Fulfillment.lines`.
+   */
+  lines?: FulfillmentLineSummary[];
+}
+
 export interface OrderSummary {
   id: string;
   code: string;
   state: OrderState;
   createdAt: string;
-  fulfillments: { id: string; state: string; trackingCode?: string | null }[];
+  fulfillments: FulfillmentSummary[];
   lines: OrderLineSummary[];
   shippingAddress?: RawOrder['shippingAddress'];
   customer?: RawOrder['customer'];
+  /** Minor currency units, e.g. cents. */
+  totalWithTax?: number;
+  currencyCode?: string;
 }
 
 export interface ProductVariantSummary {
@@ -254,6 +309,22 @@ export interface ProductVariantSummary {
   currencyCode: string;
 }
 
+export interface VariantCustomFieldsSummary {
+  id: string;
+  sku: string | null;
+  enabled: boolean;
+  customFields: Record<string, unknown>;
+}
+
+export interface VariantListItem {
+  id: string;
+  sku: string | null;
+  name: string;
+  enabled: boolean;
+  product: { id: string; name: string };
+  options: Array<{ code: string; name: string; groupName: string }>;
+}
+
 export interface ProductSummary {
   id: string;
   slug: string;
@@ -291,10 +362,94 @@ function isFulfillmentSuccess(result: FulfillmentUnion): result is FulfillmentSu
 
 type HeadersInit = Record<string, string>;
 
-import { TRANSITION_FULFILLMENT_TO_STATE_MUTATION, UPDATE_FULFILLMENT_TRACKING_MUTATION } from './vendure-queries.js';
+import {
+  ADD_NOTE_TO_ORDER_MUTATION,
+  TRANSITION_FULFILLMENT_TO_STATE_MUTATION,
+  UPDATE_FULFILLMENT_TRACKING_MUTATION,
+} from './vendure-queries.js';
+
+/**
+ * GraphQL validation errors of schemas that reject the `state: { in }` order
+ * filter, e.g. `… at "options.filter.state"; Field "in" is not defined by type
+ * "StringOperators"` or `Field "state" is not defined by type "OrderFilterParameter"`.
+ */
+function isStateFilterRejected(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return (
+    /got invalid value|is not defined by type/i.test(message) &&
+    /options\.filter\.state\b|"state" is not defined by type "OrderFilterParameter"/i.test(message)
+  );
+}
+
+const ORDERS_PAGE_SIZE = 50;
+
+/** SKUs per `productVariants` request when reading custom fields. */
+const VARIANT_SKU_BATCH = 50;
+
+const VARIANTS_PAGE_SIZE = 100;
+
+const CUSTOMER_ORDER_COUNT_QUERY = /* GraphQL */ `
+  query CustomerOrderCount($id: ID!) {
+    customer(id: $id) {
+      orders(options: { take: 1, filter: { active: { eq: false } } }) {
+        totalItems
+      }
+    }
+  }
+`;
+
+const VARIANT_LIST_QUERY = /* GraphQL */ `
+  query VariantList($options: ProductVariantListOptions) {
+    productVariants(options: $options) {
+      totalItems
+      items {
+        id
+        sku
+        name
+        enabled
+        product { id name }
+        options { code name group { name } }
+      }
+    }
+  }
+`;
+
+export interface FetchOrdersOptions {
+  sort?: Partial<Record<'createdAt' | 'updatedAt', 'ASC' | 'DESC'>>;
+  /** ISO date; only orders created after it. */
+  createdAfter?: string;
+  /** ISO date; only orders created before it. */
+  createdBefore?: string;
+  /** Sent as the `vendure-token` header to read another channel. */
+  channelToken?: string;
+  pageSize?: number;
+}
+
+export interface OrderPage {
+  items: OrderSummary[];
+  totalItems: number;
+  nextCursor: string | null;
+}
+
+/**
+ * Either a pre-issued API token, or admin credentials. Credentials also work
+ * with `tokenMethod: 'bearer'` and are reused to log in again if the session
+ * expires mid-run.
+ */
+export interface VendureAuthOptions {
+  apiToken?: string;
+  username?: string;
+  password?: string;
+}
+
+const AUTH_TOKEN_HEADER = 'vendure-auth-token';
 
 export class VendureClient {
   private cookieJar: string | null = null;
+  private authToken: string | null = null;
+  private credentials: { username: string; password: string } | null = null;
+  private channelToken: string | null = null;
+  private stateFilterSupported = true;
 
   constructor(private readonly adminApiUrl: string) {}
 
@@ -314,14 +469,33 @@ export class VendureClient {
   private buildHeaders(extra?: HeadersInit): HeadersInit {
     const headers: HeadersInit = {
       'content-type': 'application/json',
+      ...(this.channelToken ? { 'vendure-token': this.channelToken } : {}),
       ...extra,
     };
     if (this.cookieJar) {
       headers['cookie'] = this.cookieJar;
     }
+    if (this.authToken) {
+      headers['authorization'] = `Bearer ${this.authToken}`;
+    }
     return headers;
   }
 
+  /** Picks up the session from either the cookie or the bearer token header. */
+  private captureSession(response: Response) {
+    this.updateCookies(this.getSetCookie(response));
+    const token = response.headers.get(AUTH_TOKEN_HEADER);
+    if (token) {
+      this.authToken = token;
+    }
+  }
+
+  private isAuthError(errors: NonNullable<GraphQLResponse<unknown>['errors']>): boolean {
+    return errors.some(
+      (err) => err.extensions?.code === 'FORBIDDEN' || /not currently authorized/i.test(err.message),
+    );
+  }
+
   private updateCookies(setCookieHeader: string[] | undefined) {
     if (!setCookieHeader || setCookieHeader.length === 0) {
       return;
@@ -334,22 +508,36 @@ export class VendureClient {
     }
   }
 
-  private async graphql<T>(query: string, variables?: Record<string, unknown>): Promise<T> {
+  private async graphql<T>(
+    query: string,
+    variables?: Record<string, unknown>,
+    headers?: HeadersInit,
+    isRetry = false,
+  ): Promise<T> {
     const response = await fetch(this.adminApiUrl, {
       method: 'POST',
-      headers: this.buildHeaders(),
+      headers: this.buildHeaders(headers),
       body: JSON.stringify({ query, variables }),
     });
 
-    this.updateCookies(this.getSetCookie(response));
+    this.captureSession(response);
+    const canRelogin = !isRetry && this.credentials !== null;
 
     if (!response.ok) {
+      if (canRelogin && (response.status === 401 || response.status === 403)) {
+        await this.relogin();
+        return this.graphql<T>(query, variables, headers, true);
+      }
       const body = await response.text();
       throw new Error(`Vendure request failed with status ${response.status}: ${body}`);
     }
 
     const payload = (await response.json()) as GraphQLResponse<T>;
     if (payload.errors?.length) {
+      if (canRelogin && this.isAuthError(payload.errors)) {
+        await this.relogin();
+        return this.graphql<T>(query, variables, headers, true);
+      }
       throw new Error(payload.errors.map((err) => err.message).join('; '));
     }
 
@@ -360,6 +548,31 @@ export class VendureClient {
     return payload.data;
   }
 
+  /** Scopes every following request to a channel; pass nothing for the default channel. */
+  setChannelToken(token?: string | null): void {
+    this.channelToken = token ?? null;
+  }
+
+  async authenticate(auth: VendureAuthOptions): Promise<void> {
+    if (auth.apiToken) {
+      this.authToken = auth.apiToken;
+      return;
+    }
+    if (!auth.username || !auth.password) {
+      throw new Error('Vendure credentials or an API token are required.');
+    }
+    await this.login(auth.username, auth.password);
+  }
+
+  private async relogin(): Promise<void> {
+    if (!this.credentials) {
+      return;
+    }
+    this.cookieJar = null;
+    this.authToken = null;
+    await this.login(this.credentials.username, this.credentials.password);
+  }
+
   async login(username: string, password: string): Promise<void> {
     const response = await fetch(this.adminApiUrl, {
       method: 'POST',
@@ -370,7 +583,7 @@ export class VendureClient {
       }),
     });
 
-    this.updateCookies(this.getSetCookie(response));
+    this.captureSession(response);
 
     if (!response.ok) {
       const body = await response.text();
@@ -385,19 +598,91 @@ export class VendureClient {
     if (!result || result.__typename !== 'CurrentUser') {
       throw new Error(result?.message || 'Invalid Vendure admin credentials.');
     }
+    this.credentials = { username, password };
   }
 
-  async fetchOrders(states: OrderState[], take: number): Promise<OrderSummary[]> {
-    const data = await this.graphql<{
-      orders: { items: RawOrder[] };
-    }>(ORDERS_TO_FULFILL_QUERY, {
-      take,
-    });
+  /**
+   * Fetches up to `take` orders in the given states, paging through results.
+   * States and dates are filtered by Vendure; see `fetchOrdersPage`.
+   */
+  async fetchOrders(states: OrderState[], take: number, options: FetchOrdersOptions = {}): Promise<OrderSummary[]> {
+    const orders: OrderSummary[] = [];
+    let cursor: string | undefined;
+    while (orders.length < take) {
+      const page = await this.fetchOrdersPage(states, {
+        ...options,
+        cursor,
+        pageSize: Math.min(options.pageSize ?? ORDERS_PAGE_SIZE, take - orders.length),
+      });
+      orders.push(...page.items);
+      if (!page.nextCursor) {
+        break;
+      }
+      cursor = page.nextCursor;
+    }
+    return orders.slice(0, take);
+  }
+
+  /**
+   * Fetches one page of orders. Pass the returned `nextCursor` back to get the
+   * following page; it is null once results are exhausted. Schemas that reject
+   * the `state: { in }` filter are detected once and then filtered client-side.
+   */
+  async fetchOrdersPage(
+    states: OrderState[],
+    options: FetchOrdersOptions & { cursor?: string } = {},
+  ): Promise<OrderPage> {
+    const skip = options.cursor ? Number(options.cursor) : 0;
+    const take = options.pageSize ?? ORDERS_PAGE_SIZE;
+    const filter: Record<string, unknown> = {};
+    if (options.createdAfter && options.createdBefore) {
+      filter.createdAt = { between: { start: options.createdAfter, end: options.createdBefore } };
+    } else if (options.createdAfter) {
+      filter.createdAt = { after: options.createdAfter };
+    } else if (options.createdBefore) {
+      filter.createdAt = { before: options.createdBefore };
+    }
+
+    const query = (withStateFilter: boolean) =>
+      this.graphql<{ orders: { totalItems: number; items: RawOrder[] } }>(
+        ORDERS_TO_FULFILL_QUERY,
+        {
+          options: {
+            skip,
+            take,
+            sort: options.sort ?? { createdAt: 'ASC' },
+            filter: withStateFilter ? { ...filter, state: { in: states } } : filter,
+          },
+        },
+        options.channelToken ? { 'vendure-token': options.channelToken } : undefined,
+      );
+
+    let data: { orders: { totalItems: number; items: RawOrder[] } };
+    if (this.stateFilterSupported) {
+      try {
+        data = await query(true);
+      } catch (error) {
+        // Anything else (network, auth, server errors) must not turn the filter off for good.
+        if (!isStateFilterRejected(error)) {
+          throw error;
+        }
+        this.stateFilterSupported = false;
+        data = await query(false);
+      }
+    } else {
+      data = await query(false);
+    }
 
-    const summaries = data.orders.items.map((order) => this.toOrderSummary(order));
-    // Filter client-side to avoid schema enum issues on some deployments
     const stateSet = new Set(states);
-    return summaries.filter((o) => stateSet.has(o.state));
+    const items = data.orders.items
+      .map((order) => this.toOrderSummary(order))
+      .filter((order) => stateSet.has(order.state));
+    const nextSkip = skip + data.orders.items.length;
+    return {
+      items,
+      totalItems: data.orders.totalItems,
+      nextCursor: data.orders.items.length > 0 && nextSkip < data.orders.totalItems ? String(nextSkip) : null,
+    };
   }
 
   async fetchOrderByCode(code: string): Promise<OrderSummary | null> {
@@ -488,6 +773,82 @@ export class VendureClient {
     };
   }
 
+  /**
+   * Reads the given ProductVariant custom fields (none to only check existence)
+   * for a set of SKUs, in the channel the client is scoped to. SKUs unknown to
+   * Vendure are left out.
+   */
+  async fetchVariantCustomFields(skus: string[], fields: string[]): Promise<VariantCustomFieldsSummary[]> {
+    const query = /* GraphQL */ `
+      query VariantCustomFields($options: ProductVariantListOptions) {
+        productVariants(options: $options) {
+          items {
+            id
+            sku
+            enabled
+            ${fields.length > 0 ? `customFields { ${fields.join(' ')} }` : ''}
+          }
+        }
+      }
+    `;
+    const variants: VariantCustomFieldsSummary[] = [];
+    for (let i = 0; i < skus.length; i += VARIANT_SKU_BATCH) {
+      const batch = skus.slice(i, i + VARIANT_SKU_BATCH);
+      const data = await this.graphql<{
+        productVariants: {
+          items: Array<{ id: string; sku?: string | null; enabled?: boolean; customFields?: Record<string, unknown> | null }>;
+        };
+      }>(query, { options: { filter: { sku: { in: batch } }, take: batch.length } });
+      for (const item of data.productVariants.items) {
+        variants.push({
+          id: item.id,
+          sku: item.sku ?? null,
+          enabled: item.enabled ?? true,
+          customFields: item.customFields ?? {},
+        });
+      }
+    }
+    return variants;
+  }
+
+  /** Every product variant of the channel the client is scoped to, read page by page. */
+  async fetchAllVariants(): Promise<VariantListItem[]> {
+    const variants: VariantListItem[] = [];
+    for (let skip = 0; ; skip += VARIANTS_PAGE_SIZE) {
+      const data = await this.graphql<{
+        productVariants: {
+          totalItems: number;
+          items: Array<{
+            id: string;
+            sku?: string | null;
+            name: string;
+            enabled?: boolean;
+            product: { id: string; name: string };
+            options?: Array<{ code: string; name: string; group?: { name: string } | null }> | null;
+          }>;
+        };
+      }>(VARIANT_LIST_QUERY, { options: { skip, take: VARIANTS_PAGE_SIZE } });
+      for (const item of data.productVariants.items) {
+        variants.push({
+          id: item.id,
+          sku: item.sku ?? null,
+          name: item.name,
+          enabled: item.enabled ?? true,
+          product: item.product,
+          options: (item.options ?? []).map((option) => ({
+            code: option.code,
+            name: option.name,
+            groupName: option.group?.name ?? '',
+          })),
+        });
+      }
+      if (data.productVariants.items.length === 0 || skip + VARIANTS_PAGE_SIZE >= data.productVariants.totalItems) {
+        break;
+      }
+    }
+    return variants;
+  }
+
   // New: capability check for createFulfillment mutation
   async supportsCreateFulfillment(): Promise<boolean> {
     try {
@@ -659,6 +1020,7 @@ export class VendureClient {
         id: fulfillment.id,
         state: fulfillment.state,
         trackingCode: fulfillment.trackingCode ?? null,
+        lines: fulfillment.lines ?? undefined,
       })),
       lines: order.lines.map((line) => ({
         id: line.id,
@@ -671,6 +1033,8 @@ export class VendureClient {
       })),
       shippingAddress: order.shippingAddress ?? undefined,
       customer: order.customer ?? undefined,
+      totalWithTax: order.totalWithTax,
+      currencyCode: order.currencyCode,
     };
   }
 
@@ -696,6 +1060,21 @@ export class VendureClient {
       throw new Error(result.message || 'Failed to update fulfillment tracking');
     }
   }
+
+  /** Placed (non-cart) orders of the customer, the current one included. */
+  async countCustomerOrders(customerId: string): Promise<number> {
+    const data = await this.graphql<{ customer: { orders: { totalItems: number } } | null }>(
+      CUSTOMER_ORDER_COUNT_QUERY,
+      { id: customerId },
+    );
+    return data.customer?.orders.totalItems ?? 0;
+  }
+
+  async addNoteToOrder(orderId: string, note: string, isPublic = false): Promise<void> {
+    await this.graphql<{ addNoteToOrder: { id: string } }>(ADD_NOTE_TO_ORDER_MUTATION, {
+      input: { id: orderId, note, isPublic },
+    });
+  }
 }
 
 export interface OutstandingLine {
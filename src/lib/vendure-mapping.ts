@@ -0,0 +1,100 @@
+import type { AutomationConfig, ChannelConfig } from '../config.js';
+import { ProductMapping, ProductMappingEntry } from './product-mapping.js';
+import { VendureClient } from './vendure-client.js';
+
+/** Names of the ProductVariant custom fields that hold the Printify IDs. */
+export interface VendureMappingFields {
+  productId: string;
+  variantId: string;
+  /** Optional field naming the Printify shop (key or ID) of the variant. */
+  shop?: string;
+}
+
+function toId(value: unknown): number | undefined {
+  if (value === null || value === undefined || value === '') {
+    return undefined;
+  }
+  const id = Number(value);
+  return Number.isFinite(id) ? id : undefined;
+}
+
+/**
+ * SKU mapping read from Vendure ProductVariant custom fields, so new products
+ * do not need a redeploy. Each SKU is queried at most once per instance and
+ * channel; create one instance per run.
+ */
+export class VendureMappingSource {
+  /** Channel code → SKU → entry, null when the variant carries no usable IDs. */
+  private readonly cache = new Map<string, Map<string, ProductMappingEntry | null>>();
+
+  constructor(
+    private readonly vendure: VendureClient,
+    private readonly fields: VendureMappingFields,
+  ) {}
+
+  /**
+   * Vendure-sourced entries for the SKUs. `scope` keys the cache and must name
+   * the channel the client is currently scoped to.
+   */
+  async lookup(skus: string[], scope = 'default'): Promise<ProductMapping> {
+    let cached = this.cache.get(scope);
+    if (!cached) {
+      cached = new Map();
+      this.cache.set(scope, cached);
+    }
+    const missing = [...new Set(skus)].filter((sku) => !cached!.has(sku));
+    if (missing.length > 0) {
+      const names = [this.fields.productId, this.fields.variantId, ...(this.fields.shop ? [this.fields.shop] : [])];
+      const variants = await this.vendure.fetchVariantCustomFields(missing, [...new Set(names)]);
+      for (const sku of missing) {
+        cached.set(sku, null);
+      }
+      for (const variant of variants) {
+        if (variant.sku) {
+          cached.set(variant.sku, this.toEntry(variant.customFields));
+        }
+      }
+    }
+
+    const mapping: ProductMapping = {};
+    for (const sku of skus) {
+      const entry = cached.get(sku);
+      if (entry) {
+        mapping[sku] = entry;
+      }
+    }
+    return mapping;
+  }
+
+  /** Entries for the SKUs, with the channel's file mapping taking precedence for the SKUs it lists. */
+  async mappingFor(channel: ChannelConfig, skus: string[]): Promise<ProductMapping> {
+    const fromVendure = await this.lookup(
+      skus.filter((sku) => !channel.productMapping[sku]),
+      channel.code,
+    );
+    return { ...fromVendure, ...channel.productMapping };
+  }
+
+  private toEntry(customFields: Record<string, unknown>): ProductMappingEntry | null {
+    const rawProductId = customFields[this.fields.productId];
+    const productId =
+      typeof rawProductId === 'string' && rawProductId.trim() && !/^\d+$/.test(rawProductId.trim())
+        ? rawProductId.trim()
+        : toId(rawProductId);
+    const variantId = toId(customFields[this.fields.variantId]);
+    if (productId === undefined || variantId === undefined) {
+      return null;
+    }
+    const entry: ProductMappingEntry = { productId, variantId };
+    const shop = this.fields.shop ? customFields[this.fields.shop] : undefined;
+    if (typeof shop === 'string' || typeof shop === 'number') {
+      if (shop !== '') entry.shop = String(shop);
+    }
+    return entry;
+  }
+}
+
+/** A source over `vendure` when PRINTIFY_MAPPING_SOURCE=vendure; null otherwise. */
+export function createVendureMappingSource(cfg: AutomationConfig, vendure: VendureClient): VendureMappingSource | null {
+  return cfg.printify.mappingSource === 'vendure' ? new VendureMappingSource(vendure, cfg.printify.mappingFields) : null;
+}
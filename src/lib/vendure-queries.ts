@@ -39,3 +39,11 @@ export const UPDATE_FULFILLMENT_TRACKING_MUTATION = /* GraphQL */ `
     }
   }
 `;
+
+export const ADD_NOTE_TO_ORDER_MUTATION = /* GraphQL */ `
+  mutation AddNoteToOrder($input: AddNoteToOrderInput!) {
+    addNoteToOrder(input: $input) {
+      id
+    }
+  }
+`;
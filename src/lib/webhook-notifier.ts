@@ -0,0 +1,37 @@
+import { BaseNotifier, Notification, NotifierOptions } from './notifier.js';
+
+export interface WebhookNotifierOptions extends NotifierOptions {
+  name: string;
+  url: string;
+  /** Extra request headers, e.g. an `authorization` header the receiver checks. */
+  headers: Record<string, string>;
+}
+
+/**
+ * POSTs each notification as JSON: `{ source, key, params, locale, icon,
+ * title, details, severity, dryRun, at, sections }`. `key` and `params` let
+ * receivers render their own text; `sections` is only set on run digests.
+ */
+export class WebhookNotifier extends BaseNotifier {
+  readonly name: string;
+
+  constructor(private readonly options: WebhookNotifierOptions) {
+    super(options);
+    this.name = options.name;
+  }
+
+  protected async deliver(notification: Notification): Promise<void> {
+    try {
+      const response = await fetch(this.options.url, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', ...this.options.headers },
+        body: JSON.stringify({ source: 'vendure-automations', ...notification }),
+      });
+      if (!response.ok) {
+        console.error(`Failed to deliver webhook notification (${this.name})`, response.status, await response.text());
+      }
+    } catch (error) {
+      console.error(`Notification webhook error (${this.name})`, error);
+    }
+  }
+}
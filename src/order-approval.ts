@@ -0,0 +1,88 @@
+import type { AutomationConfig, ChannelConfig } from './config.js';
+import { ApprovalReason, MessageParams } from './lib/messages.js';
+import { TelegramButton } from './lib/telegram.js';
+import { OrderSummary, VendureClient } from './lib/vendure-client.js';
+
+export type ApprovalAction = 'approve' | 'reject' | 'address';
+
+const ACTIONS: ApprovalAction[] = ['approve', 'reject', 'address'];
+
+export function formatMoney(minor: number | undefined, currencyCode?: string): string {
+  return `${((minor ?? 0) / 100).toFixed(2)}${currencyCode ? ` ${currencyCode}` : ''}`;
+}
+
+/**
+ * Why the order needs an operator's approval under the configured rules;
+ * empty when it can go straight to the provider.
+ */
+export async function approvalReasons(
+  cfg: AutomationConfig,
+  vendure: VendureClient,
+  order: OrderSummary,
+): Promise<ApprovalReason[]> {
+  const reasons: ApprovalReason[] = [];
+  const { minTotal, firstTimeCustomers } = cfg.approval;
+  if (minTotal !== undefined && (order.totalWithTax ?? 0) >= minTotal) {
+    reasons.push({
+      kind: 'total',
+      total: formatMoney(order.totalWithTax, order.currencyCode),
+      threshold: formatMoney(minTotal, order.currencyCode),
+    });
+  }
+  if (firstTimeCustomers && order.customer?.id) {
+    const placed = await vendure.countCustomerOrders(order.customer.id);
+    if (placed <= 1) {
+      reasons.push({ kind: 'first-order', customer: order.customer.emailAddress ?? `customer ${order.customer.id}` });
+    }
+  }
+  return reasons;
+}
+
+/** English wording of a reason, as kept in the state store and skip reasons. */
+export function describeApprovalReason(reason: ApprovalReason): string {
+  return reason.kind === 'total' ? `total ${reason.total} ≥ ${reason.threshold}` : `first order of ${reason.customer}`;
+}
+
+export function adminOrderUrl(cfg: AutomationConfig, orderId: string): string | undefined {
+  return cfg.vendure.adminUiUrl ? `${cfg.vendure.adminUiUrl}/orders/${orderId}` : undefined;
+}
+
+/** Parameters of the Telegram approval request. */
+export function approvalRequest(
+  cfg: AutomationConfig,
+  channel: ChannelConfig,
+  order: OrderSummary,
+  reasons: ApprovalReason[],
+): MessageParams['approval.requested'] {
+  const address = order.shippingAddress;
+  return {
+    code: order.code,
+    channel: channel.code,
+    total: formatMoney(order.totalWithTax, order.currencyCode),
+    customer: order.customer?.emailAddress ?? undefined,
+    address: [address?.fullName, address?.streetLine1, address?.city, address?.postalCode, address?.countryCode]
+      .filter(Boolean)
+      .join(', '),
+    lines: order.lines.map((line) => `${line.productVariant.sku ?? line.productVariant.name} × ${line.quantity}`),
+    reasons,
+    url: adminOrderUrl(cfg, order.id),
+  };
+}
+
+export function approvalButtons(orderCode: string): TelegramButton[][] {
+  return [
+    [
+      { text: '✅ Approve', callbackData: `approve:${orderCode}` },
+      { text: '❌ Reject', callbackData: `reject:${orderCode}` },
+    ],
+    [{ text: '✏️ Edit address', callbackData: `address:${orderCode}` }],
+  ];
+}
+
+export function parseApprovalCallback(data: string | undefined): { action: ApprovalAction; orderCode: string } | null {
+  const [action, orderCode] = (data ?? '').split(':', 2);
+  if (!orderCode || !ACTIONS.includes(action as ApprovalAction)) {
+    return null;
+  }
+  return { action: action as ApprovalAction, orderCode };
+}
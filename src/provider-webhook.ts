@@ -0,0 +1,501 @@
+import { AutomationConfig, ProductMapping, mergedProductMapping } from './config.js';
+import {
+  FulfillmentProvider,
+  FulfillmentState,
+  ProviderShipment,
+  ProviderWebhookEvent,
+  WebhookAction,
+} from './lib/fulfillment-provider.js';
+import { localeStrings } from './lib/messages.js';
+import { Notifier } from './lib/notifier.js';
+import { mappingRows } from './lib/product-mapping.js';
+import { ProviderRegistry } from './lib/provider-registry.js';
+import { StateStore } from './lib/state-store.js';
+import { createVendureMappingSource } from './lib/vendure-mapping.js';
+import { VendureClient, OrderSummary, FulfillmentLineSummary } from './lib/vendure-client.js';
+
+/** Forward order of the fulfillment state machine; `Cancelled` is handled separately. */
+const FULFILLMENT_STATE_ORDER: FulfillmentState[] = ['Created', 'Pending', 'Fulfilled', 'Shipped', 'Delivered'];
+
+/**
+ * Late or retried events must never move a fulfillment backwards (e.g. a
+ * `shipment:created` arriving after `shipment:delivered`). Cancelling is
+ * allowed from any state except `Delivered` and `Cancelled` itself. A state
+ * outside the known machine (a custom Vendure state) is treated as stale, so
+ * the event is skipped instead of guessed at.
+ */
+export function isForwardTransition(from: string, to: FulfillmentState): boolean {
+  const fromIndex = FULFILLMENT_STATE_ORDER.indexOf(from as FulfillmentState);
+  if (fromIndex === -1) {
+    return false;
+  }
+  if (to === 'Cancelled') {
+    return from !== 'Delivered';
+  }
+  const toIndex = FULFILLMENT_STATE_ORDER.indexOf(to);
+  return toIndex !== -1 && toIndex > fromIndex;
+}
+
+export interface WebhookContext {
+  cfg: AutomationConfig;
+  vendure: VendureClient;
+  reporter: Notifier;
+  store: StateStore;
+}
+
+export type WebhookResult =
+  | { status: 'ignored'; reason?: string }
+  | { status: 'not-found'; orderCode: string }
+  | { status: 'duplicate'; eventId: string }
+  | { status: 'stale'; orderCode: string; reason: string }
+  | { status: 'processed'; orderCode: string; fulfillmentIds: string[]; action: WebhookAction };
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Prefers the fulfillment recorded for this provider order, then the ones the
+ * pipeline recorded for the Vendure order, falling back to the latest one for
+ * orders fulfilled before the state store existed.
+ */
+async function findFulfillment(
+  store: StateStore,
+  order: OrderSummary,
+  providerOrderId: string | undefined,
+): Promise<OrderSummary['fulfillments'][number] | undefined> {
+  const record =
+    (providerOrderId ? await store.findOrderByProviderOrderId(providerOrderId) : null) ??
+    (await store.getOrder(order.code));
+  const linkedId = providerOrderId ? record?.providerOrders?.[providerOrderId]?.fulfillmentId : undefined;
+  const knownIds = [...(record?.fulfillmentIds ?? []), ...(linkedId ? [linkedId] : [])];
+  for (let i = knownIds.length - 1; i >= 0; i--) {
+    const match = order.fulfillments.find((fulfillment) => fulfillment.id === knownIds[i]);
+    if (match) {
+      return match;
+    }
+  }
+  return order.fulfillments[order.fulfillments.length - 1];
+}
+
+async function transitionFulfillment(
+  vendure: VendureClient,
+  fulfillmentId: string,
+  targetState: FulfillmentState,
+  tracking: { carrier?: string; code?: string } | undefined,
+): Promise<void> {
+  try {
+    await vendure.transitionFulfillmentToState(fulfillmentId, targetState);
+  } catch (error) {
+    throw new Error(`Vendure transition failed: ${describeError(error)}`);
+  }
+
+  if (tracking?.code) {
+    try {
+      await vendure.updateFulfillmentTracking(fulfillmentId, {
+        trackingCode: tracking.code,
+        method: tracking.carrier,
+      });
+    } catch (error) {
+      throw new Error(`Vendure tracking update failed: ${describeError(error)}`);
+    }
+  }
+}
+
+function shipmentKey(shipment: ProviderShipment, index: number): string {
+  return shipment.trackingNumber ?? shipment.id ?? `#${index + 1}`;
+}
+
+function shipmentTracking(shipment: ProviderShipment): { carrier?: string; code?: string } {
+  return { carrier: shipment.carrier, code: shipment.trackingNumber };
+}
+
+/**
+ * Used when shipments cannot be told apart: every tracking number lands on the
+ * single fulfillment so the customer still gets all of them.
+ */
+function combinedTracking(shipments: ProviderShipment[] | undefined): { carrier?: string; code?: string } | undefined {
+  const list = (shipments ?? []).map(shipmentTracking).filter((t) => t.code);
+  if (list.length === 0) {
+    return undefined;
+  }
+  return {
+    carrier: [...new Set(list.map((t) => t.carrier).filter(Boolean))].join(', ') || undefined,
+    code: list.map((t) => t.code).join(', '),
+  };
+}
+
+function mergeLines(lines: FulfillmentLineSummary[]): FulfillmentLineSummary[] {
+  const merged = new Map<string, number>();
+  for (const line of lines) {
+    merged.set(line.orderLineId, (merged.get(line.orderLineId) ?? 0) + line.quantity);
+  }
+  return [...merged.entries()].map(([orderLineId, quantity]) => ({ orderLineId, quantity }));
+}
+
+/**
+ * Maps a shipment's provider line items back to Vendure order lines, first by
+ * the `vendureOrderLineId` metadata the pipeline sends, then by variant ID via
+ * the product mapping. Returns null if any item cannot be placed.
+ */
+export function resolveShipmentLines(
+  order: OrderSummary,
+  shipment: ProviderShipment,
+  mapping: ProductMapping,
+): FulfillmentLineSummary[] | null {
+  if (!shipment.lines?.length) {
+    return null;
+  }
+  const lines: FulfillmentLineSummary[] = [];
+  for (const item of shipment.lines) {
+    let line = item.vendureOrderLineId ? order.lines.find((l) => l.id === item.vendureOrderLineId) : undefined;
+    if (!line && item.variantId !== undefined) {
+      const sku = Object.entries(mapping).find(([, entry]) =>
+        mappingRows(entry).some((row) => row.variantId === Number(item.variantId)),
+      )?.[0];
+      line = sku ? order.lines.find((l) => l.productVariant.sku === sku) : undefined;
+    }
+    if (!line) {
+      return null;
+    }
+    lines.push({ orderLineId: line.id, quantity: item.quantity ?? line.quantity });
+  }
+  return mergeLines(lines);
+}
+
+/**
+ * What is left of a fulfillment once a shipment's lines are taken out of it.
+ * Returns null if the shipment claims more of a line than the fulfillment has.
+ */
+export function subtractLines(from: FulfillmentLineSummary[], lines: FulfillmentLineSummary[]): FulfillmentLineSummary[] | null {
+  const remaining = new Map(from.map((line) => [line.orderLineId, line.quantity]));
+  for (const line of lines) {
+    const available = remaining.get(line.orderLineId) ?? 0;
+    if (available < line.quantity) {
+      return null;
+    }
+    remaining.set(line.orderLineId, available - line.quantity);
+  }
+  return [...remaining.entries()]
+    .filter(([, quantity]) => quantity > 0)
+    .map(([orderLineId, quantity]) => ({ orderLineId, quantity }));
+}
+
+async function createFulfillmentForLines(
+  ctx: WebhookContext,
+  provider: FulfillmentProvider,
+  order: OrderSummary,
+  lines: FulfillmentLineSummary[],
+  trackingCode?: string,
+): Promise<string> {
+  const created = await ctx.vendure.createFulfillment({
+    orderId: order.id,
+    lines,
+    handlerCode: ctx.cfg.vendure.fulfillmentHandlerCode,
+    method: provider.name,
+    trackingCode,
+  });
+  if (!created.success) {
+    throw new Error(`Vendure fulfillment failed: ${created.message}`);
+  }
+  return created.fulfillmentId;
+}
+
+/**
+ * Ships exactly the given lines. A pending fulfillment that matches them is
+ * shipped as is; one that holds more lines is cancelled and split into a
+ * shipped fulfillment for this parcel and a pending one for the rest.
+ */
+async function shipLines(
+  ctx: WebhookContext,
+  provider: FulfillmentProvider,
+  order: OrderSummary,
+  lines: FulfillmentLineSummary[],
+  tracking: { carrier?: string; code?: string },
+): Promise<string> {
+  for (const fulfillment of order.fulfillments) {
+    if (fulfillment.state !== 'Pending' || !fulfillment.lines) {
+      continue;
+    }
+    const remainder = subtractLines(fulfillment.lines, lines);
+    if (!remainder) {
+      continue;
+    }
+    if (remainder.length === 0) {
+      await transitionFulfillment(ctx.vendure, fulfillment.id, 'Shipped', tracking);
+      return fulfillment.id;
+    }
+    await transitionFulfillment(ctx.vendure, fulfillment.id, 'Cancelled', undefined);
+    const shippedId = await createFulfillmentForLines(ctx, provider, order, lines, tracking.code);
+    await transitionFulfillment(ctx.vendure, shippedId, 'Shipped', tracking);
+    const pendingId = await createFulfillmentForLines(ctx, provider, order, remainder);
+    await ctx.store.updateOrder(order.code, { fulfillmentId: pendingId });
+    return shippedId;
+  }
+
+  // Nothing pending covers the parcel (e.g. the order was fulfilled by hand).
+  const outstanding = new Map(order.lines.map((line) => [line.id, line.quantity - line.fulfilledQuantity]));
+  if (lines.every((line) => (outstanding.get(line.orderLineId) ?? 0) >= line.quantity)) {
+    const id = await createFulfillmentForLines(ctx, provider, order, lines, tracking.code);
+    await transitionFulfillment(ctx.vendure, id, 'Shipped', tracking);
+    return id;
+  }
+  throw new Error(`No pending fulfillment covers shipment ${tracking.code ?? ''} of order ${order.code}`.trim());
+}
+
+/**
+ * Gives every provider shipment its own Vendure fulfillment so each tracking
+ * number reaches the customer and the order moves through PartiallyShipped /
+ * PartiallyDelivered. Returns null when shipments carry no line information,
+ * in which case the caller falls back to updating a single fulfillment.
+ */
+async function applyShipments(
+  ctx: WebhookContext,
+  order: OrderSummary,
+  provider: FulfillmentProvider,
+  shipments: ProviderShipment[],
+  targetState: 'Shipped' | 'Delivered',
+): Promise<string[] | null> {
+  let mapping = mergedProductMapping(ctx.cfg, provider);
+  const source = createVendureMappingSource(ctx.cfg, ctx.vendure);
+  if (source) {
+    const skus = order.lines.map((line) => line.productVariant.sku).filter((sku): sku is string => Boolean(sku));
+    mapping = { ...(await source.lookup(skus)), ...mapping };
+  }
+  const routed = shipments.map((shipment, index) => ({
+    shipment,
+    key: shipmentKey(shipment, index),
+    lines: resolveShipmentLines(order, shipment, mapping),
+  }));
+  if (routed.length === 0 || routed.some((entry) => !entry.lines)) {
+    return null;
+  }
+
+  const record = await ctx.store.getOrder(order.code);
+  const known: Record<string, string> = { ...(record?.shipments ?? {}) };
+  // When the provider flags individual deliveries, only those parcels are delivered.
+  const onlyFlagged = targetState === 'Delivered' && shipments.some((shipment) => shipment.deliveredAt);
+  let current = order;
+  const touched: string[] = [];
+
+  for (const entry of routed) {
+    if (onlyFlagged && !entry.shipment.deliveredAt) {
+      continue;
+    }
+    let fulfillmentId = known[entry.key];
+    if (!fulfillmentId) {
+      fulfillmentId = await shipLines(ctx, provider, current, entry.lines!, shipmentTracking(entry.shipment));
+      known[entry.key] = fulfillmentId;
+      await ctx.store.updateOrder(order.code, { fulfillmentId, shipment: { key: entry.key, fulfillmentId } });
+      // Splitting changes fulfillments and fulfilled quantities; work on fresh data.
+      current = (await ctx.vendure.fetchOrderByCode(order.code)) ?? current;
+    }
+    if (targetState === 'Delivered') {
+      const fulfillment = current.fulfillments.find((f) => f.id === fulfillmentId);
+      if (!fulfillment || isForwardTransition(fulfillment.state, 'Delivered')) {
+        await transitionFulfillment(ctx.vendure, fulfillmentId, 'Delivered', undefined);
+      }
+    }
+    touched.push(fulfillmentId);
+  }
+  return touched;
+}
+
+/**
+ * Cancels the Vendure fulfillment and leaves a private note on the order so
+ * whoever picks up the alert can re-route or refund it.
+ */
+async function stopFulfillment(
+  ctx: WebhookContext,
+  order: OrderSummary,
+  fulfillment: OrderSummary['fulfillments'][number] | undefined,
+  provider: FulfillmentProvider,
+  event: ProviderWebhookEvent,
+): Promise<void> {
+  const providerLabel = provider.name.charAt(0).toUpperCase() + provider.name.slice(1);
+  const providerOrderId = event.orderId ?? 'N/A';
+
+  if (fulfillment && isForwardTransition(fulfillment.state, 'Cancelled')) {
+    await transitionFulfillment(ctx.vendure, fulfillment.id, 'Cancelled', undefined);
+  }
+
+  const note = localeStrings(ctx.cfg.vendure.noteLocale).notes.providerCancelled({
+    provider: providerLabel,
+    providerOrderId,
+    event: event.event,
+    reason: event.reason,
+  });
+  await ctx.vendure.addNoteToOrder(order.id, note);
+
+  await ctx.reporter.notify(
+    {
+      key: 'webhook.stopped',
+      params: { provider: providerLabel, code: order.code, fulfillmentId: fulfillment?.id, reason: event.reason },
+    },
+    { severity: 'critical' },
+  );
+}
+
+/** Alerts operators about a problem the provider expects to resolve; the fulfillment is left as is. */
+async function reportIssue(ctx: WebhookContext, order: OrderSummary, provider: FulfillmentProvider, event: ProviderWebhookEvent) {
+  const providerLabel = provider.name.charAt(0).toUpperCase() + provider.name.slice(1);
+  await ctx.reporter.notify(
+    { key: 'webhook.issue', params: { provider: providerLabel, code: order.code, reason: event.reason } },
+    { severity: 'warning' },
+  );
+}
+
+/**
+ * Applies one provider webhook event to Vendure. Callers are expected to have
+ * verified the signature, picked the provider account the event belongs to and
+ * logged the Vendure client in. Events for provider orders the state store
+ * does not link to that account are ignored.
+ *
+ * The event ID is claimed in the store before anything happens, so retries
+ * arriving together cannot both apply it. The claim is released unless the
+ * event was applied (or found stale), leaving failed and ignored events open
+ * to a later retry.
+ */
+export async function processProviderWebhook(
+  ctx: WebhookContext,
+  provider: FulfillmentProvider,
+  event: ProviderWebhookEvent,
+): Promise<WebhookResult> {
+  const { action, externalId } = event;
+  if (!action || !externalId) {
+    return { status: 'ignored' };
+  }
+
+  if (!(await ctx.store.claimEvent(event.id, { event: event.event, orderCode: externalId }))) {
+    return { status: 'duplicate', eventId: event.id };
+  }
+  let settled = false;
+  try {
+    const result = await applyProviderEvent(ctx, provider, event, action, externalId);
+    settled = result.status === 'processed' || result.status === 'stale';
+    return result;
+  } finally {
+    if (!settled) {
+      await ctx.store.releaseEvent(event.id);
+    }
+  }
+}
+
+async function applyProviderEvent(
+  ctx: WebhookContext,
+  provider: FulfillmentProvider,
+  event: ProviderWebhookEvent,
+  action: WebhookAction,
+  externalId: string,
+): Promise<WebhookResult> {
+  // Only provider orders the pipeline created for this account may move Vendure fulfillments.
+  if (event.accountId && event.accountId !== provider.accountId) {
+    return { status: 'ignored', reason: `Event belongs to ${provider.name} account ${event.accountId}` };
+  }
+  if (!event.orderId || !(await ownsProviderOrder(ctx, provider, externalId, event.orderId))) {
+    console.warn(`[automation] ${provider.key} webhook ${event.id} for unknown provider order ${event.orderId ?? '–'} ignored`);
+    return { status: 'ignored', reason: `Provider order ${event.orderId ?? '–'} is not linked to ${externalId}` };
+  }
+
+  const order = await ctx.vendure.fetchOrderByCode(externalId);
+  if (!order) {
+    await ctx.reporter.notify({ key: 'webhook.order-not-found', params: { provider: provider.name, code: externalId } });
+    return { status: 'not-found', orderCode: externalId };
+  }
+
+  const fulfillment = await findFulfillment(ctx.store, order, event.orderId);
+  const attemptStatus = action.kind === 'transition' ? action.targetState : action.kind;
+  let fulfillmentIds = fulfillment ? [fulfillment.id] : [];
+
+  try {
+    if (action.kind === 'transition') {
+      const targetState = action.targetState;
+      const perShipment =
+        targetState === 'Shipped' || targetState === 'Delivered'
+          ? await applyShipments(ctx, order, provider, event.shipments, targetState)
+          : null;
+      if (perShipment) {
+        fulfillmentIds = perShipment;
+      } else if (fulfillment && !isForwardTransition(fulfillment.state, targetState)) {
+        const reason = `Fulfillment ${fulfillment.id} is already ${fulfillment.state}`;
+        await ctx.store.markEventProcessed(event.id, { event: event.event, orderCode: order.code });
+        return { status: 'stale', orderCode: order.code, reason };
+      } else if (fulfillment) {
+        await transitionFulfillment(ctx.vendure, fulfillment.id, targetState, combinedTracking(event.shipments));
+      }
+    } else if (action.kind === 'cancelled') {
+      await stopFulfillment(ctx, order, fulfillment, provider, event);
+    } else {
+      await reportIssue(ctx, order, provider, event);
+    }
+  } catch (error) {
+    await ctx.store.updateOrder(order.code, {
+      attempt: { status: 'failed', step: event.event, error: describeError(error) },
+    });
+    throw error;
+  }
+
+  await ctx.store.updateOrder(order.code, {
+    orderId: order.id,
+    providerOrder: event.orderId
+      ? { id: event.orderId, provider: provider.name, accountId: provider.accountId }
+      : undefined,
+    fulfillmentId: fulfillmentIds.length === 1 ? fulfillmentIds[0] : undefined,
+    attempt: { status: attemptStatus, step: event.event },
+  });
+  // Only successful events are remembered, so a failed one can still be retried.
+  await ctx.store.markEventProcessed(event.id, { event: event.event, orderCode: order.code });
+
+  return { status: 'processed', orderCode: order.code, fulfillmentIds, action };
+}
+
+/**
+ * The account a webhook request is for. The payload is not trusted to pick
+ * it: `?shop=` on the webhook URL names the account, otherwise it is the
+ * account whose webhook secret verifies the signature. An account without a
+ * secret is only picked by name, or when it is the provider's only account.
+ * Undefined when no account matches.
+ */
+export function resolveWebhookProvider(
+  providers: ProviderRegistry,
+  name: string,
+  verify: (provider: FulfillmentProvider) => boolean,
+  account?: string,
+): FulfillmentProvider | undefined {
+  if (account) {
+    const provider = providers.find(name, account);
+    return provider && verify(provider) ? provider : undefined;
+  }
+  const candidates = providers.list().filter((provider) => provider.name === name);
+  if (candidates.length === 1) {
+    return verify(candidates[0]) ? candidates[0] : undefined;
+  }
+  return candidates.find((provider) => provider.verifiesWebhooks && verify(provider));
+}
+
+/**
+ * Whether the state store links the provider order to this account. Records
+ * from before provider links only carry `printifyOrderId`; like `/order`,
+ * those belong to the first channel's shop.
+ */
+async function ownsProviderOrder(
+  ctx: WebhookContext,
+  provider: FulfillmentProvider,
+  orderCode: string,
+  providerOrderId: string,
+): Promise<boolean> {
+  const record = await ctx.store.findOrderByProviderOrderId(providerOrderId);
+  if (!record || record.orderCode !== orderCode) {
+    return false;
+  }
+  const link = record.providerOrders?.[providerOrderId];
+  if (link) {
+    return link.provider === provider.name && link.accountId === provider.accountId;
+  }
+  const legacyShop = ctx.cfg.channels[0].printifyShopId;
+  return (
+    provider.name === 'printify' &&
+    record.printifyOrderId === providerOrderId &&
+    (provider.key === `printify:${legacyShop}` || provider.accountId === legacyShop)
+  );
+}
@@ -0,0 +1,215 @@
+import { AutomationConfig, loadConfig } from './config.js';
+import { createFulfillmentContext } from './fulfill-orders.js';
+import { PrintifyClient, PrintifyOrderResponse } from './lib/printify-client.js';
+import { createShopRegistry } from './lib/printify-shops.js';
+import { StateStore } from './lib/state-store.js';
+import { OrderState, OrderSummary, VendureClient } from './lib/vendure-client.js';
+
+/** Vendure states in which the order is paid and not yet shipped, so its Printify draft may go to production. */
+const SUBMITTABLE_ORDER_STATES: OrderState[] = ['PaymentSettled', 'PartiallyFulfilled', 'Fulfilled'];
+
+const MAX_DRAFT_PAGES = 20;
+
+export type SubmissionStatus = 'submitted' | 'held' | 'skipped' | 'failed' | 'dry-run';
+
+export interface SubmissionResult {
+  shop: string;
+  printifyOrderId: string;
+  code?: string;
+  status: SubmissionStatus;
+  reason?: string;
+}
+
+export interface SubmitRunResult {
+  dryRun: boolean;
+  submitted: number;
+  held: number;
+  skipped: number;
+  failed: number;
+  orders: SubmissionResult[];
+  /** Set when the run did nothing because operators paused the jobs. */
+  paused?: boolean;
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function draftAgeHours(draft: PrintifyOrderResponse, now: number): number | null {
+  if (!draft.created_at) {
+    return null;
+  }
+  const created = Date.parse(draft.created_at);
+  return Number.isFinite(created) ? (now - created) / 3_600_000 : null;
+}
+
+/** True when the fulfillment job recorded this draft for the order in `external_id` and this shop. */
+async function isRecordedDraft(store: StateStore, draft: PrintifyOrderResponse, shopId: string): Promise<boolean> {
+  const record = await store.findOrderByProviderOrderId(draft.id);
+  if (!record || record.orderCode !== draft.external_id) {
+    return false;
+  }
+  const link = record.providerOrders?.[draft.id];
+  // Records written before provider links only carry `printifyOrderId`.
+  return link ? link.provider === 'printify' && link.accountId === shopId : record.printifyOrderId === draft.id;
+}
+
+/** Looks the order up in every configured channel, since token-scoped channels only see their own orders. */
+async function findOrderInChannels(
+  cfg: AutomationConfig,
+  vendure: VendureClient,
+  code: string,
+): Promise<OrderSummary | null> {
+  for (const channel of cfg.channels) {
+    vendure.setChannelToken(channel.token);
+    const order = await vendure.fetchOrderByCode(code);
+    if (order) {
+      return order;
+    }
+  }
+  return null;
+}
+
+/**
+ * Follow-up pass that sends Printify drafts created by the fulfillment job to
+ * production once they are older than the configured hold window and the
+ * Vendure order is paid. Drafts the state store does not link to their order
+ * (created by hand or by another integration) are left alone.
+ */
+export async function runSubmitToProduction(cfg: AutomationConfig = loadConfig()): Promise<SubmitRunResult> {
+  const { reporter, vendure, store } = createFulfillmentContext(cfg);
+  const result: SubmitRunResult = { dryRun: cfg.job.dryRun, submitted: 0, held: 0, skipped: 0, failed: 0, orders: [] };
+
+  if (!cfg.printify.enabled || !cfg.printify.autoSubmit.enabled) {
+    return result;
+  }
+  // Sending to production is what costs money, so `/pause` stops it too.
+  if ((await store.getControl()).paused) {
+    return { ...result, paused: true };
+  }
+
+  // Unlike the fulfillment job, dry-run still reads the real drafts; it only
+  // skips the send-to-production call below.
+  const shops = createShopRegistry(cfg);
+  const push = (entry: SubmissionResult): SubmissionResult => {
+    result.orders.push(entry);
+    if (entry.status === 'submitted') result.submitted += 1;
+    else if (entry.status === 'held') result.held += 1;
+    else if (entry.status === 'failed') result.failed += 1;
+    else result.skipped += 1;
+    return entry;
+  };
+
+  await reporter.beginRun({ key: 'submit.started', params: { holdHours: cfg.printify.autoSubmit.holdHours } });
+  try {
+    await vendure.authenticate(cfg.vendure);
+
+    const drafts: Array<{ draft: PrintifyOrderResponse; shop: string; printify: PrintifyClient }> = [];
+    for (const shop of shops.list()) {
+      const printify = shops.client(shop);
+      for (let page = 1; page <= MAX_DRAFT_PAGES; page++) {
+        const batch = await printify.listOrders({ page, status: 'on-hold' });
+        drafts.push(...batch.data.map((draft) => ({ draft, shop: shop.key, printify })));
+        if (batch.current_page >= batch.last_page) {
+          break;
+        }
+      }
+    }
+
+    const now = Date.now();
+    for (const { draft, shop, printify } of drafts) {
+      if (!draft.external_id) {
+        push({ shop, printifyOrderId: draft.id, status: 'skipped', reason: 'Draft has no external_id' });
+        continue;
+      }
+      if (!(await isRecordedDraft(store, draft, shops.get(shop).shopId))) {
+        push({
+          shop,
+          printifyOrderId: draft.id,
+          code: draft.external_id,
+          status: 'skipped',
+          reason: 'Draft was not created by the fulfillment job',
+        });
+        continue;
+      }
+
+      const age = draftAgeHours(draft, now);
+      if (age === null || age < cfg.printify.autoSubmit.holdHours) {
+        push({
+          shop,
+          printifyOrderId: draft.id,
+          code: draft.external_id,
+          status: 'held',
+          reason: age === null ? 'Unknown draft age' : `Draft is ${age.toFixed(1)}h old`,
+        });
+        continue;
+      }
+
+      try {
+        const order = await findOrderInChannels(cfg, vendure, draft.external_id);
+        if (!order) {
+          push({ shop, printifyOrderId: draft.id, code: draft.external_id, status: 'skipped', reason: 'Vendure order not found' });
+          continue;
+        }
+        if (!SUBMITTABLE_ORDER_STATES.includes(order.state)) {
+          const entry = push({
+            shop,
+            printifyOrderId: draft.id,
+            code: order.code,
+            status: 'skipped',
+            reason: `Vendure order is ${order.state}`,
+          });
+          await reporter.notify({ key: 'submit.skipped', params: { code: order.code, reason: entry.reason } }, {
+            entry: { outcome: 'skipped', subject: order.code, detail: entry.reason },
+          });
+          continue;
+        }
+
+        if (cfg.job.dryRun) {
+          push({ shop, printifyOrderId: draft.id, code: order.code, status: 'dry-run', reason: 'Would send to production' });
+          continue;
+        }
+
+        await printify.sendToProduction(draft.id);
+        await store.updateOrder(order.code, {
+          orderId: order.id,
+          providerOrder: { id: draft.id, provider: 'printify', accountId: shops.get(shop).shopId },
+          sentToProductionAt: new Date().toISOString(),
+          attempt: { status: 'sent-to-production', step: 'submit-to-production' },
+        });
+        push({ shop, printifyOrderId: draft.id, code: order.code, status: 'submitted' });
+        await reporter.notify({ key: 'submit.submitted', params: { code: order.code, shop, printifyOrderId: draft.id } }, {
+          entry: { outcome: 'success', subject: order.code, detail: `Printify ${shop} ${draft.id}` },
+        });
+      } catch (error) {
+        const reason = describeError(error);
+        push({ shop, printifyOrderId: draft.id, code: draft.external_id, status: 'failed', reason });
+        await store.updateOrder(draft.external_id, {
+          attempt: { status: 'failed', step: 'submit-to-production', error: reason },
+        });
+        await reporter.notify({ key: 'submit.failed', params: { code: draft.external_id, reason } }, {
+          severity: 'warning',
+          entry: { outcome: 'failure', subject: draft.external_id, detail: reason },
+        });
+      }
+    }
+
+    await reporter.endRun({
+      key: 'submit.completed',
+      params: {
+        dryRun: cfg.job.dryRun,
+        submitted: result.submitted,
+        held: result.held,
+        skipped: result.skipped,
+        failed: result.failed,
+        orders: result.orders
+          .filter((entry) => entry.status === 'dry-run')
+          .map((entry) => ({ code: entry.code ?? entry.printifyOrderId, reason: entry.reason })),
+      },
+    });
+    return result;
+  } catch (error) {
+    await reporter.endRun({ key: 'submit.run-failed', params: { error: describeError(error) } }, 'critical');
+    throw error;
+  }
+}
@@ -0,0 +1,271 @@
+import { AutomationConfig } from './config.js';
+import { OrderFulfillmentResult, createFulfillmentContext, runFulfillOrder } from './fulfill-orders.js';
+import { Locale, localeStrings } from './lib/messages.js';
+import { createProviderRegistry } from './lib/provider-registry.js';
+import { TelegramCallbackQuery, TelegramMessage, TelegramUpdate } from './lib/telegram.js';
+import { adminOrderUrl, parseApprovalCallback } from './order-approval.js';
+
+export type TelegramCommandResult =
+  | { status: 'ignored' }
+  | { status: 'unauthorized'; chatId: number; userId?: number }
+  | { status: 'handled'; command: string }
+  | { status: 'decided'; action: string; orderCode: string };
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/** `/order@my_bot ABC123` → `{ command: 'order', args: ['ABC123'] }`; null for plain messages. */
+export function parseCommand(text: string | undefined): { command: string; args: string[] } | null {
+  const match = /^\/([a-z_]+)(?:@\S+)?(?:\s+(.*))?$/is.exec((text ?? '').trim());
+  if (!match) {
+    return null;
+  }
+  return { command: match[1].toLowerCase(), args: (match[2] ?? '').split(/\s+/).filter(Boolean) };
+}
+
+/** Both lists apply when set: the chat must be allowed, and so must the user. */
+export function isAuthorized(cfg: AutomationConfig, message: TelegramMessage): boolean {
+  const { allowedChatIds, allowedUserIds } = cfg.telegram;
+  if (allowedChatIds.length === 0 && allowedUserIds.length === 0) {
+    return false;
+  }
+  if (allowedChatIds.length > 0 && !allowedChatIds.includes(String(message.chat.id))) {
+    return false;
+  }
+  if (allowedUserIds.length > 0 && !allowedUserIds.includes(String(message.from?.id ?? ''))) {
+    return false;
+  }
+  return true;
+}
+
+function operatorName(message: TelegramMessage): string {
+  const from = message.from;
+  if (!from) {
+    return `chat ${message.chat.id}`;
+  }
+  return from.username ? `@${from.username}` : `${from.first_name ?? 'user'} (${from.id})`;
+}
+
+export function formatOrderResult(result: OrderFulfillmentResult, locale: Locale): string {
+  const t = localeStrings(locale).bot;
+  const lines = [t.result(result)];
+  if (result.reason) {
+    lines.push(result.reason);
+  }
+  for (const shopOrder of result.shopOrders) {
+    lines.push(
+      t.resultFulfillment(shopOrder.provider, shopOrder.providerOrderId, shopOrder.fulfillmentId, shopOrder.fulfillmentState),
+    );
+  }
+  if (result.heldSkus?.length) {
+    lines.push(t.held(result.heldSkus));
+  }
+  return lines.join('\n');
+}
+
+async function statusText(cfg: AutomationConfig): Promise<string> {
+  const t = localeStrings(cfg.telegram.locale).bot;
+  const { store } = createFulfillmentContext(cfg);
+  const control = await store.getControl();
+  const deadLetters = await store.listDeadLetters();
+  const lines = [control.paused ? t.pausedSince(control.paused.at, control.paused.by) : t.running];
+  if (control.lastRun) {
+    lines.push(t.lastRun(control.lastRun), control.lastRun.summary);
+  } else {
+    lines.push(t.noRun);
+  }
+  if (deadLetters.length > 0) {
+    lines.push(t.deadLetters(deadLetters.length));
+  }
+  return lines.join('\n');
+}
+
+async function orderText(cfg: AutomationConfig, code: string): Promise<string> {
+  const t = localeStrings(cfg.telegram.locale).bot;
+  const { vendure, store } = createFulfillmentContext(cfg);
+  await vendure.authenticate(cfg.vendure);
+
+  const lines: string[] = [];
+  for (const channel of cfg.channels) {
+    vendure.setChannelToken(channel.token);
+    const order = await vendure.fetchOrderByCode(code);
+    if (!order) {
+      continue;
+    }
+    lines.push(t.order(order.code, channel.code, order.state));
+    for (const line of order.lines) {
+      lines.push(t.orderLine(line.productVariant.sku ?? line.productVariant.name, line.quantity, line.fulfilledQuantity));
+    }
+    for (const fulfillment of order.fulfillments) {
+      lines.push(t.fulfillment(fulfillment.id, fulfillment.state, fulfillment.trackingCode));
+    }
+    break;
+  }
+  if (lines.length === 0) {
+    lines.push(t.orderNotFound(code));
+  }
+
+  const record = await store.getOrder(code);
+  const links = Object.entries(record?.providerOrders ?? {});
+  if (record?.printifyOrderId && !record.providerOrders) {
+    links.push([record.printifyOrderId, { provider: 'printify', accountId: cfg.channels[0].printifyShopId }]);
+  }
+  const providers = cfg.printify.enabled ? createProviderRegistry(cfg) : null;
+  for (const [providerOrderId, link] of links) {
+    const provider = providers?.find(link.provider, link.accountId);
+    let status = t.providerStatusUnknown;
+    if (provider) {
+      try {
+        status = (await provider.getOrder(providerOrderId)).status;
+      } catch (error) {
+        status = t.lookupFailed(describeError(error));
+      }
+    }
+    lines.push(t.providerOrder(provider?.key ?? link.provider, providerOrderId, status));
+  }
+  const attempt = record?.attempts[record.attempts.length - 1];
+  if (attempt) {
+    lines.push(t.lastAttempt(attempt));
+  }
+  if (record?.approval) {
+    const { status, decidedBy, reasons } = record.approval;
+    lines.push(t.approval(status, reasons, decidedBy));
+  }
+  if (record?.heldLines?.length) {
+    lines.push(t.heldLines(record.heldLines.length));
+  }
+  return lines.join('\n');
+}
+
+async function runOrder(cfg: AutomationConfig, code: string, dryRun: boolean): Promise<string> {
+  const result = await runFulfillOrder(dryRun ? { ...cfg, job: { ...cfg.job, dryRun: true } } : cfg, code);
+  return result
+    ? formatOrderResult(result, cfg.telegram.locale)
+    : localeStrings(cfg.telegram.locale).bot.orderNotFound(code);
+}
+
+/**
+ * Applies an Approve / Reject / Edit-address button press to a parked order
+ * and notes the decision on the Vendure order. Approving runs the pipeline
+ * for the order right away.
+ */
+async function handleApprovalCallback(cfg: AutomationConfig, query: TelegramCallbackQuery): Promise<TelegramCommandResult> {
+  const { telegram, store, vendure } = createFulfillmentContext(cfg);
+  const t = localeStrings(cfg.telegram.locale).bot;
+  const notes = localeStrings(cfg.vendure.noteLocale).notes;
+  const parsed = parseApprovalCallback(query.data);
+  const message = query.message;
+  if (!parsed || !message) {
+    await telegram.answerCallback(query);
+    return { status: 'ignored' };
+  }
+  // The chat is the one the keyboard was posted in; the user is who pressed it.
+  if (!isAuthorized(cfg, { ...message, from: query.from })) {
+    console.warn(`[automation] Telegram ${parsed.action} of ${parsed.orderCode} refused for user ${query.from.id}`);
+    await telegram.answerCallback(query, t.notAllowed);
+    return { status: 'unauthorized', chatId: message.chat.id, userId: query.from.id };
+  }
+
+  const { action, orderCode } = parsed;
+  const by = operatorName({ ...message, from: query.from });
+  const record = await store.getOrder(orderCode);
+  const approval = record?.approval;
+  const orderId = record?.orderId;
+  if (!orderId || approval?.status !== 'pending') {
+    await telegram.answerCallback(query, t.notAwaiting(orderCode, approval?.status));
+    return { status: 'handled', command: action };
+  }
+
+  try {
+    await vendure.authenticate(cfg.vendure);
+    const channel = cfg.channels.find((candidate) => candidate.code === approval.channel) ?? cfg.channels[0];
+    vendure.setChannelToken(channel.token);
+    const decidedAt = new Date().toISOString();
+
+    switch (action) {
+      case 'approve': {
+        await store.updateOrder(orderCode, { approval: { ...approval, status: 'approved', decidedAt, decidedBy: by } });
+        await vendure.addNoteToOrder(orderId, notes.approved(by));
+        await telegram.answerCallback(query, t.approved);
+        await telegram.closeQuestion(message, { key: 'approval.approved', params: { code: orderCode, by, at: decidedAt } });
+        await telegram.reply(message, await runOrder(cfg, orderCode, cfg.job.dryRun));
+        break;
+      }
+      case 'reject':
+        await store.updateOrder(orderCode, { approval: { ...approval, status: 'rejected', decidedAt, decidedBy: by } });
+        await vendure.addNoteToOrder(orderId, notes.rejected(by));
+        await telegram.answerCallback(query, t.rejected);
+        await telegram.closeQuestion(message, { key: 'approval.rejected', params: { code: orderCode, by, at: decidedAt } });
+        break;
+      case 'address': {
+        // The order stays parked with its buttons until the address is fixed and someone approves.
+        await vendure.addNoteToOrder(orderId, notes.addressRequested(by));
+        await telegram.answerCallback(query, t.editAddressToast);
+        await telegram.reply(message, t.editAddress(orderCode, adminOrderUrl(cfg, orderId)));
+        break;
+      }
+    }
+  } catch (error) {
+    await telegram.answerCallback(query, t.failedToast);
+    await telegram.reply(message, t.decisionFailed(action, orderCode, describeError(error)));
+  }
+  return { status: 'decided', action, orderCode };
+}
+
+/**
+ * Handles one bot update: runs the command if the sender is allow-listed and
+ * replies in the same chat. Errors are replied too, so Telegram never retries.
+ */
+export async function handleTelegramUpdate(cfg: AutomationConfig, update: TelegramUpdate): Promise<TelegramCommandResult> {
+  if (update.callback_query) {
+    return handleApprovalCallback(cfg, update.callback_query);
+  }
+  const message = update.message;
+  const parsed = parseCommand(message?.text);
+  if (!message || !parsed) {
+    return { status: 'ignored' };
+  }
+  if (!isAuthorized(cfg, message)) {
+    console.warn(`[automation] Telegram command /${parsed.command} refused for chat ${message.chat.id}, user ${message.from?.id}`);
+    return { status: 'unauthorized', chatId: message.chat.id, userId: message.from?.id };
+  }
+
+  const { reporter, telegram, store } = createFulfillmentContext(cfg);
+  const t = localeStrings(cfg.telegram.locale).bot;
+  const [code] = parsed.args;
+  let reply: string;
+  try {
+    switch (parsed.command) {
+      case 'status':
+        reply = await statusText(cfg);
+        break;
+      case 'order':
+        reply = code ? await orderText(cfg, code) : t.usageOf('order');
+        break;
+      case 'retry':
+        reply = code ? await runOrder(cfg, code, cfg.job.dryRun) : t.usageOf('retry');
+        break;
+      case 'dryrun':
+        reply = code ? await runOrder(cfg, code, true) : t.usageOf('dryrun');
+        break;
+      case 'pause':
+        await store.updateControl({ paused: { by: operatorName(message) } });
+        await reporter.notify({ key: 'control.paused', params: { by: operatorName(message) } });
+        reply = t.paused;
+        break;
+      case 'resume':
+        await store.updateControl({ paused: null });
+        await reporter.notify({ key: 'control.resumed', params: { by: operatorName(message) } });
+        reply = t.resumed;
+        break;
+      default:
+        reply = t.usage.join('\n');
+    }
+  } catch (error) {
+    reply = t.failed(parsed.command, describeError(error));
+  }
+
+  await telegram.reply(message, reply);
+  return { status: 'handled', command: parsed.command };
+}
@@ -0,0 +1,234 @@
+import { AutomationConfig, ChannelConfig, ProductMapping, loadConfig } from './config.js';
+import { createFulfillmentContext } from './fulfill-orders.js';
+import { NotificationEvent, renderMessage } from './lib/messages.js';
+import { PrintifyProduct } from './lib/printify-client.js';
+import { createShopRegistry } from './lib/printify-shops.js';
+import { ProductMappingEntry, mappingRows } from './lib/product-mapping.js';
+import { VariantCustomFieldsSummary, VendureClient } from './lib/vendure-client.js';
+import { createVendureMappingSource } from './lib/vendure-mapping.js';
+
+export type MappingIssueCode =
+  | 'vendure-sku-missing'
+  | 'vendure-variant-disabled'
+  | 'shop-unknown'
+  | 'printify-product-missing'
+  | 'printify-variant-missing'
+  | 'printify-variant-disabled'
+  | 'printify-variant-unavailable'
+  | 'duplicate-printify-variant'
+  | 'check-failed';
+
+export interface MappingCheckIssue {
+  channel: string;
+  sku: string;
+  /** Errors make orders fail; warnings are worth a look but may be intended. */
+  severity: 'error' | 'warning';
+  code: MappingIssueCode;
+  message: string;
+  shop?: string;
+  productId?: string | number;
+  variantId?: number;
+}
+
+export interface ChannelMappingReport {
+  code: string;
+  /** Mapping rows checked (a SKU with per-country rows counts once per row). */
+  rows: number;
+  issues: MappingCheckIssue[];
+}
+
+export interface MappingValidationResult {
+  checkedAt: string;
+  /** False under PRINTIFY_API_MOCK, where only the Vendure side is checked. */
+  printifyChecked: boolean;
+  rows: number;
+  errors: number;
+  warnings: number;
+  channels: ChannelMappingReport[];
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * The mapping the fulfillment job would use for the channel. With
+ * PRINTIFY_MAPPING_SOURCE=vendure that means the custom fields of every
+ * variant, overlaid with the file mapping.
+ */
+async function channelMapping(cfg: AutomationConfig, vendure: VendureClient, channel: ChannelConfig): Promise<ProductMapping> {
+  const source = createVendureMappingSource(cfg, vendure);
+  if (!source) {
+    return channel.productMapping;
+  }
+  const skus = (await vendure.fetchAllVariants()).map((variant) => variant.sku).filter((sku): sku is string => !!sku);
+  return source.mappingFor(channel, [...new Set([...skus, ...Object.keys(channel.productMapping)])]);
+}
+
+/**
+ * Checks every mapping row against the live catalogs: the Vendure SKU exists
+ * and is enabled in the channel, and the Printify product and variant exist
+ * and are sellable in the row's shop. Read-only on both sides.
+ */
+export async function runValidateMapping(cfg: AutomationConfig = loadConfig()): Promise<MappingValidationResult> {
+  const { reporter, vendure } = createFulfillmentContext(cfg);
+  const shops = createShopRegistry(cfg);
+  const printifyChecked = cfg.printify.enabled && !cfg.printify.mockApi;
+  const result: MappingValidationResult = {
+    checkedAt: new Date().toISOString(),
+    printifyChecked,
+    rows: 0,
+    errors: 0,
+    warnings: 0,
+    channels: [],
+  };
+
+  // Products are shared across channels; fetch each one once per shop.
+  const products = new Map<string, Promise<PrintifyProduct | null>>();
+  const fetchProduct = (shopKey: string, productId: string | number) => {
+    const key = `${shopKey}:${productId}`;
+    let product = products.get(key);
+    if (!product) {
+      product = shops.client(shops.get(shopKey)).getProduct(productId);
+      products.set(key, product);
+    }
+    return product;
+  };
+
+  await reporter.beginRun({ key: 'mapping.started', params: {} });
+  try {
+    await vendure.authenticate(cfg.vendure);
+
+    for (const channel of cfg.channels) {
+      vendure.setChannelToken(channel.token);
+      const report: ChannelMappingReport = { code: channel.code, rows: 0, issues: [] };
+      result.channels.push(report);
+      const issue = (sku: string, entry: ProductMappingEntry | null, fields: Omit<MappingCheckIssue, 'channel' | 'sku'>) => {
+        report.issues.push({
+          channel: channel.code,
+          sku,
+          ...(entry ? { shop: entry.shop, productId: entry.productId, variantId: entry.variantId } : {}),
+          ...fields,
+        });
+      };
+
+      const mapping = await channelMapping(cfg, vendure, channel);
+      const skus = Object.keys(mapping);
+      const variants = new Map<string, VariantCustomFieldsSummary>();
+      for (const variant of await vendure.fetchVariantCustomFields(skus, [])) {
+        if (variant.sku) variants.set(variant.sku, variant);
+      }
+
+      const targets = new Map<string, string>();
+      for (const sku of skus) {
+        const variant = variants.get(sku);
+        if (!variant) {
+          issue(sku, null, {
+            severity: 'error',
+            code: 'vendure-sku-missing',
+            message: `SKU ${sku} does not exist in channel ${channel.code}; the row is orphaned`,
+          });
+        } else if (!variant.enabled) {
+          issue(sku, null, { severity: 'warning', code: 'vendure-variant-disabled', message: `Variant ${sku} is disabled in Vendure` });
+        }
+
+        for (const row of mappingRows(mapping[sku])) {
+          report.rows += 1;
+          const shop = shops.find(row.shop ?? channel.printifyShopId);
+          if (!shop) {
+            issue(sku, row, {
+              severity: 'error',
+              code: 'shop-unknown',
+              message: `Printify shop '${row.shop ?? channel.printifyShopId}' is not configured`,
+            });
+            continue;
+          }
+          // Rows without productId create the product with the order; there is nothing to look up.
+          if (row.productId === undefined) {
+            continue;
+          }
+          const target = `${shop.key}:${row.productId}:${row.variantId}`;
+          const countries = row.countries?.join(',') ?? '';
+          const claimedBy = targets.get(target);
+          if (claimedBy && claimedBy !== sku) {
+            issue(sku, row, {
+              severity: 'warning',
+              code: 'duplicate-printify-variant',
+              message: `Same Printify variant as ${claimedBy}`,
+            });
+          } else if (!claimedBy) {
+            targets.set(target, sku);
+          }
+          if (!printifyChecked) {
+            continue;
+          }
+
+          try {
+            const product = await fetchProduct(shop.key, row.productId);
+            const where = `${shop.key}${countries ? `, ${countries}` : ''}`;
+            if (!product) {
+              issue(sku, row, {
+                severity: 'error',
+                code: 'printify-product-missing',
+                message: `Printify product ${row.productId} not found (${where})`,
+              });
+              continue;
+            }
+            const variant = product.variants.find((candidate) => candidate.id === row.variantId);
+            if (!variant) {
+              issue(sku, row, {
+                severity: 'error',
+                code: 'printify-variant-missing',
+                message: `Variant ${row.variantId} is not part of "${product.title}" (${where})`,
+              });
+            } else if (variant.is_enabled === false) {
+              issue(sku, row, {
+                severity: 'error',
+                code: 'printify-variant-disabled',
+                message: `Variant ${row.variantId} of "${product.title}" is disabled (${where})`,
+              });
+            } else if (variant.is_available === false) {
+              issue(sku, row, {
+                severity: 'warning',
+                code: 'printify-variant-unavailable',
+                message: `Variant ${row.variantId} of "${product.title}" is currently unavailable (${where})`,
+              });
+            }
+          } catch (error) {
+            issue(sku, row, { severity: 'error', code: 'check-failed', message: describeError(error) });
+          }
+        }
+      }
+
+      result.rows += report.rows;
+      result.errors += report.issues.filter((entry) => entry.severity === 'error').length;
+      result.warnings += report.issues.filter((entry) => entry.severity === 'warning').length;
+    }
+
+    await reporter.endRun(validationEvent(result));
+    return result;
+  } catch (error) {
+    await reporter.endRun({ key: 'mapping.failed', params: { error: describeError(error) } }, 'critical');
+    throw error;
+  }
+}
+
+function validationEvent(result: MappingValidationResult): NotificationEvent {
+  return {
+    key: 'mapping.completed',
+    params: {
+      rows: result.rows,
+      errors: result.errors,
+      warnings: result.warnings,
+      printifyChecked: result.printifyChecked,
+      issues: result.channels.flatMap((channel) =>
+        channel.issues.map(({ severity, sku, message }) => ({ severity, channel: channel.code, sku, message })),
+      ),
+    },
+  };
+}
+
+/** English summary of the run, as printed by `pnpm validate:mapping`. */
+export function summarizeValidation(result: MappingValidationResult): string {
+  return renderMessage(validationEvent(result), 'en').details ?? '';
+}
@@ -0,0 +1,74 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { CatalogVariant, proposeMapping } from '../src/lib/mapping-generator.js';
+import { VariantListItem } from '../src/lib/vendure-client.js';
+
+function vendureVariant(id: string, sku: string | null, product: string, options: string[]): VariantListItem {
+  return {
+    id,
+    sku,
+    name: `${product} ${options.join(' ')}`,
+    enabled: true,
+    product: { id: `p-${product}`, name: product },
+    options: options.map((name) => ({ code: name.toLowerCase(), name, groupName: '' })),
+  };
+}
+
+function printifyVariant(variantId: number, sku: string | null, productTitle: string, optionValues: string[]): CatalogVariant {
+  return {
+    shop: 'apparel',
+    productId: 'prod-1',
+    productTitle,
+    variantId,
+    sku,
+    title: optionValues.join(' / '),
+    optionValues,
+  };
+}
+
+describe('proposeMapping', () => {
+  it('matches by SKU ignoring case before trying titles', () => {
+    const proposal = proposeMapping(
+      [vendureVariant('1', 'tee-black-s', 'Tee', ['Black', 'S'])],
+      [printifyVariant(10, 'TEE-BLACK-S', 'Other title', ['White', 'L'])],
+    );
+    assert.deepEqual(
+      proposal.rows.map((row) => [row.sku, row.variantId, row.basis]),
+      [['tee-black-s', 10, 'sku']],
+    );
+    assert.deepEqual(proposal.unmatchedPrintify, []);
+  });
+
+  it('falls back to product title and option values, ignoring accents and order', () => {
+    const proposal = proposeMapping(
+      [vendureVariant('1', 'AO-1', 'Áo thun', ['S', 'Trắng'])],
+      [printifyVariant(11, null, 'Ao Thun', ['Trang', 's'])],
+    );
+    assert.deepEqual(proposal.rows.map((row) => [row.variantId, row.basis]), [[11, 'title-options']]);
+  });
+
+  it('never guesses between several candidates', () => {
+    const proposal = proposeMapping(
+      [vendureVariant('1', 'DUP', 'Tee', ['S'])],
+      [printifyVariant(1, 'dup', 'Tee', ['S']), printifyVariant(2, 'DUP', 'Tee', ['S'])],
+    );
+    assert.deepEqual(proposal.rows, []);
+    assert.equal(proposal.unmatchedVendure[0].reason, 'Ambiguous: 2 Printify variants match by SKU');
+    assert.equal(proposal.unmatchedPrintify.length, 2);
+  });
+
+  it('gives a Printify variant to the first Vendure variant only', () => {
+    const proposal = proposeMapping(
+      [vendureVariant('1', 'A', 'Tee', ['S']), vendureVariant('2', 'B', 'Tee', ['S']), vendureVariant('3', null, 'Tee', ['M'])],
+      [printifyVariant(5, null, 'Tee', ['S'])],
+    );
+    assert.deepEqual(proposal.rows.map((row) => row.sku), ['A']);
+    assert.deepEqual(
+      proposal.unmatchedVendure.map((variant) => [variant.id, variant.reason]),
+      [
+        ['2', 'Printify variant already matched to A'],
+        ['3', 'Variant has no SKU'],
+      ],
+    );
+  });
+});
@@ -0,0 +1,50 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { DigestEntry, buildDigestSections } from '../src/lib/notifier.js';
+
+function codes(count: number, prefix = 'ORD-'): string[] {
+  return Array.from({ length: count }, (_, i) => `${prefix}${i + 1}`);
+}
+
+describe('buildDigestSections', () => {
+  it('orders sections as successes, failures, skipped, then other events', () => {
+    const entries: DigestEntry[] = [
+      { outcome: 'skipped', subject: 'ORD-3', detail: 'awaiting approval' },
+      { outcome: 'failure', subject: 'ORD-2', detail: 'Unmapped SKU' },
+      { outcome: 'success', subject: 'ORD-1' },
+    ];
+    const sections = buildDigestSections(entries, ['Mapping reloaded'], 'en');
+    assert.deepEqual(
+      sections.map((section) => [section.outcome, section.title, section.count, section.lines]),
+      [
+        ['success', 'Succeeded', 1, ['ORD-1']],
+        ['failure', 'Failed', 1, ['Unmapped SKU (1): ORD-2']],
+        ['skipped', 'Skipped', 1, ['ORD-3: awaiting approval']],
+        ['other', 'Other', 1, ['Mapping reloaded']],
+      ],
+    );
+  });
+
+  it('groups failures by reason and counts codes past the first ten', () => {
+    const entries: DigestEntry[] = [
+      ...codes(12).map((subject): DigestEntry => ({ outcome: 'failure', subject, detail: 'Timeout' })),
+      { outcome: 'failure', subject: 'ORD-X' },
+    ];
+    const [failures] = buildDigestSections(entries, [], 'en');
+    assert.equal(failures.count, 13);
+    assert.deepEqual(failures.lines, [`Timeout (12): ${codes(10).join(', ')} +2`, 'Unknown error (1): ORD-X']);
+  });
+
+  it('caps long sections and titles them in the requested language', () => {
+    const entries = codes(20).map((subject): DigestEntry => ({ outcome: 'success', subject }));
+    const [successes] = buildDigestSections(entries, []);
+    assert.equal(successes.title, 'Thành công');
+    assert.equal(successes.count, 20);
+    assert.equal(successes.lines.length, 16);
+    assert.equal(successes.lines[15], '…và 5 mục khác');
+  });
+
+  it('returns no sections for an empty run', () => {
+    assert.deepEqual(buildDigestSections([], []), []);
+  });
+});
@@ -0,0 +1,60 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { resolveWebhookAction, toProviderOrder } from '../src/lib/printify-provider.js';
+
+describe('resolveWebhookAction', () => {
+  it('maps production and shipment events to fulfillment states', () => {
+    assert.deepEqual(resolveWebhookAction({ event: 'order:sent-to-production' }), {
+      kind: 'transition',
+      targetState: 'Fulfilled',
+    });
+    assert.deepEqual(resolveWebhookAction({ event: 'order:shipment:created' }), {
+      kind: 'transition',
+      targetState: 'Shipped',
+    });
+    assert.deepEqual(resolveWebhookAction({ event: 'order:shipment:delivered' }), {
+      kind: 'transition',
+      targetState: 'Delivered',
+    });
+  });
+
+  it('reads order:updated by its status, ignoring case', () => {
+    assert.deepEqual(resolveWebhookAction({ event: 'order:updated', data: { status: 'In-Production' } }), {
+      kind: 'transition',
+      targetState: 'Fulfilled',
+    });
+    assert.deepEqual(resolveWebhookAction({ event: 'order:updated', data: { status: 'canceled' } }), {
+      kind: 'cancelled',
+    });
+    assert.deepEqual(resolveWebhookAction({ event: 'order:updated', data: { status: 'has-issues' } }), {
+      kind: 'issue',
+    });
+  });
+
+  it('ignores events and statuses it does not act on', () => {
+    assert.equal(resolveWebhookAction({ event: 'order:updated', data: { status: 'fulfilled' } }), null);
+    assert.equal(resolveWebhookAction({ event: 'order:updated' }), null);
+    assert.equal(resolveWebhookAction({ event: 'product:publish:started' }), null);
+  });
+});
+
+describe('toProviderOrder', () => {
+  it('allows cancelling only before the order reaches production', () => {
+    for (const status of ['on-hold', 'payment-not-received']) {
+      assert.equal(toProviderOrder({ id: 'o1', status }).cancellable, true, status);
+    }
+    for (const status of ['pending', 'in-production', 'fulfilled', 'canceled']) {
+      assert.equal(toProviderOrder({ id: 'o1', status }).cancellable, false, status);
+    }
+  });
+
+  it('flags cancelled orders and keeps the external ID', () => {
+    assert.deepEqual(toProviderOrder({ id: 'o1', status: 'canceled', external_id: 'ORD-1' }), {
+      id: 'o1',
+      status: 'canceled',
+      externalId: 'ORD-1',
+      cancelled: true,
+      cancellable: false,
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  MappingFileError,
+  parseCsv,
+  parseCsvMapping,
+  parseJsonMapping,
+  resolveMappingEntry,
+} from '../src/lib/product-mapping.js';
+
+function issuesOf(fn: () => unknown): string[] {
+  try {
+    fn();
+  } catch (error) {
+    assert.ok(error instanceof MappingFileError);
+    return error.issues.map((issue) => `${issue.line}: ${issue.message}`);
+  }
+  assert.fail('expected a MappingFileError');
+}
+
+describe('parseCsv', () => {
+  it('keeps commas, doubled quotes and line breaks inside quoted fields', () => {
+    const records = parseCsv('sku,printAreas\r\n"TEE, black","{""front"":""a.png""}"\n"multi\nline",x\n');
+    assert.deepEqual(records, [
+      { line: 1, fields: ['sku', 'printAreas'] },
+      { line: 2, fields: ['TEE, black', '{"front":"a.png"}'] },
+      { line: 3, fields: ['multi\nline', 'x'] },
+    ]);
+  });
+
+  it('skips blank lines but counts them', () => {
+    assert.deepEqual(parseCsv('a,b\n\n , \nc,d'), [
+      { line: 1, fields: ['a', 'b'] },
+      { line: 4, fields: ['c', 'd'] },
+    ]);
+  });
+});
+
+describe('parseCsvMapping', () => {
+  it('reads header-less files in the legacy column order', () => {
+    const mapping = parseCsvMapping('TEE-S,5d39b159e7c48c000728c89f,17390,apparel\nMUG,123,45', 'map.csv');
+    assert.deepEqual(mapping, {
+      'TEE-S': { productId: '5d39b159e7c48c000728c89f', variantId: 17390, shop: 'apparel' },
+      MUG: { productId: 123, variantId: 45 },
+    });
+  });
+
+  it('maps header aliases and keeps per-country rows as alternatives', () => {
+    const mapping = parseCsvMapping(
+      'SKU,Product ID,variant_id,country\nTEE,p-us,1,US\nTEE,p-eu,2,"DE, FR"\nTEE,p-any,3,',
+      'map.csv',
+    );
+    assert.equal(resolveMappingEntry(mapping.TEE, 'us')?.productId, 'p-us');
+    assert.equal(resolveMappingEntry(mapping.TEE, 'FR')?.productId, 'p-eu');
+    assert.equal(resolveMappingEntry(mapping.TEE, 'VN')?.productId, 'p-any');
+  });
+
+  it('reports every invalid row with its line', () => {
+    const issues = issuesOf(() =>
+      parseCsvMapping('sku,productId,variantId,colour\n,p,1\nTEE,p,abc\nMUG,p,1\nMUG,p,2', 'map.csv'),
+    );
+    assert.deepEqual(issues, [
+      '1: unknown column "colour"',
+      '2: missing sku',
+      '3: variantId must be a number',
+      '5: duplicate sku MUG; add countries to tell the rows apart',
+    ]);
+  });
+
+  it('requires all fields of a product created on the fly', () => {
+    const issues = issuesOf(() => parseCsvMapping('sku,variantId,blueprintId\nTEE,1,6', 'map.csv'));
+    assert.deepEqual(issues, ['2: products created on the fly need blueprintId, printProviderId and printAreas']);
+  });
+});
+
+describe('parseJsonMapping', () => {
+  it('accepts an object keyed by SKU with row arrays', () => {
+    const mapping = parseJsonMapping(
+      {
+        TEE: [
+          { productId: 'a', variantId: 1, countries: ['us'] },
+          { productId: 'b', variantId: 2 },
+        ],
+        POSTER: { blueprintId: 9, printProviderId: 3, variantId: 4, printAreas: { front: 'https://x/art.png' } },
+      },
+      'map.json',
+    );
+    assert.equal(resolveMappingEntry(mapping.TEE, 'US')?.productId, 'a');
+    assert.equal(resolveMappingEntry(mapping.TEE, 'DE')?.productId, 'b');
+    assert.deepEqual(mapping.POSTER, {
+      blueprintId: 9,
+      printProviderId: 3,
+      variantId: 4,
+      printAreas: { front: 'https://x/art.png' },
+    });
+  });
+
+  it('locates invalid rows of an array through their SKU', () => {
+    const text = JSON.stringify([{ sku: 'A', productId: 'p', variantId: 1 }, { sku: 'B', productId: 'p' }], null, 2);
+    assert.deepEqual(
+      issuesOf(() => parseJsonMapping(JSON.parse(text), 'map.json', text)),
+      [`${text.split('\n').findIndex((line) => line.includes('"B"')) + 1}: missing variantId`],
+    );
+  });
+
+  it('rejects a document that is neither an object nor an array', () => {
+    assert.deepEqual(
+      issuesOf(() => parseJsonMapping('nope', 'map.json')),
+      ['1: expected an object keyed by SKU or an array of rows'],
+    );
+  });
+});
@@ -0,0 +1,82 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ProductMapping } from '../src/config.js';
+import { isForwardTransition, resolveShipmentLines, subtractLines } from '../src/provider-webhook.js';
+import { OrderSummary } from '../src/lib/vendure-client.js';
+
+describe('isForwardTransition', () => {
+  it('only moves forward through the state machine', () => {
+    assert.equal(isForwardTransition('Pending', 'Shipped'), true);
+    assert.equal(isForwardTransition('Shipped', 'Delivered'), true);
+    assert.equal(isForwardTransition('Shipped', 'Shipped'), false);
+    assert.equal(isForwardTransition('Delivered', 'Shipped'), false);
+  });
+
+  it('cancels anything but a delivered or cancelled fulfillment', () => {
+    assert.equal(isForwardTransition('Shipped', 'Cancelled'), true);
+    assert.equal(isForwardTransition('Delivered', 'Cancelled'), false);
+    assert.equal(isForwardTransition('Cancelled', 'Cancelled'), false);
+  });
+
+  it('treats states outside the machine as stale', () => {
+    assert.equal(isForwardTransition('Cancelled', 'Shipped'), false);
+    assert.equal(isForwardTransition('AwaitingPickup', 'Delivered'), false);
+  });
+});
+
+const order: OrderSummary = {
+  id: '1',
+  code: 'ORD-1',
+  state: 'PaymentSettled',
+  createdAt: '2026-01-01T00:00:00Z',
+  fulfillments: [],
+  lines: [
+    { id: 'l1', quantity: 2, fulfilledQuantity: 0, productVariant: { id: 'v1', sku: 'TEE', name: 'Tee' } },
+    { id: 'l2', quantity: 1, fulfilledQuantity: 0, productVariant: { id: 'v2', sku: 'MUG', name: 'Mug' } },
+  ],
+};
+
+const mapping: ProductMapping = {
+  TEE: { productId: 'p1', variantId: 100 },
+  MUG: { productId: 'p2', variantId: 200, alternatives: [{ productId: 'p3', variantId: 201, countries: ['US'] }] },
+};
+
+describe('resolveShipmentLines', () => {
+  it('places items by order line metadata, then by mapped variant', () => {
+    const lines = resolveShipmentLines(
+      order,
+      { lines: [{ vendureOrderLineId: 'l1', quantity: 1 }, { variantId: 201 }, { variantId: 100, quantity: 1 }] },
+      mapping,
+    );
+    assert.deepEqual(lines, [
+      { orderLineId: 'l1', quantity: 2 },
+      { orderLineId: 'l2', quantity: 1 },
+    ]);
+  });
+
+  it('gives up when an item cannot be placed or there are no items', () => {
+    assert.equal(resolveShipmentLines(order, { lines: [{ variantId: 999 }] }, mapping), null);
+    assert.equal(resolveShipmentLines(order, { lines: [] }, mapping), null);
+    assert.equal(resolveShipmentLines(order, {}, mapping), null);
+  });
+});
+
+describe('subtractLines', () => {
+  const fulfillment = [
+    { orderLineId: 'l1', quantity: 2 },
+    { orderLineId: 'l2', quantity: 1 },
+  ];
+
+  it('leaves the lines the shipment did not cover', () => {
+    assert.deepEqual(subtractLines(fulfillment, [{ orderLineId: 'l1', quantity: 1 }]), [
+      { orderLineId: 'l1', quantity: 1 },
+      { orderLineId: 'l2', quantity: 1 },
+    ]);
+    assert.deepEqual(subtractLines(fulfillment, fulfillment), []);
+  });
+
+  it('refuses a shipment larger than the fulfillment', () => {
+    assert.equal(subtractLines(fulfillment, [{ orderLineId: 'l2', quantity: 2 }]), null);
+    assert.equal(subtractLines(fulfillment, [{ orderLineId: 'l3', quantity: 1 }]), null);
+  });
+});
@@ -0,0 +1,26 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { takeReply } from '../src/lib/smtp.js';
+
+describe('takeReply', () => {
+  it('collects every line of a multi-line reply', () => {
+    assert.deepEqual(takeReply('250-relay.example\r\n250-STARTTLS\r\n250 AUTH PLAIN\r\n'), {
+      reply: { code: 250, lines: ['relay.example', 'STARTTLS', 'AUTH PLAIN'] },
+      rest: '',
+    });
+  });
+
+  it('waits for the final line and its CRLF', () => {
+    assert.equal(takeReply('250-relay.example\r\n250-STARTTLS\r\n'), null);
+    assert.equal(takeReply('250-relay.example\r\n250 AUTH'), null);
+    assert.equal(takeReply('250 OK\r'), null);
+  });
+
+  it('leaves the next reply in the buffer', () => {
+    assert.deepEqual(takeReply('220 ready\r\n250 OK\r\n354'), {
+      reply: { code: 220, lines: ['ready'] },
+      rest: '250 OK\r\n354',
+    });
+    assert.deepEqual(takeReply('354\r\n'), { reply: { code: 354, lines: [''] }, rest: '' });
+  });
+});
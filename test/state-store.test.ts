@@ -0,0 +1,84 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, describe, it } from 'node:test';
+import { FileStateStore, MemoryStateStore } from '../src/lib/state-store.js';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'state-store-test-'));
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+let files = 0;
+function stateFile(): string {
+  files += 1;
+  return path.join(dir, `state-${files}.json`);
+}
+
+describe('FileStateStore', () => {
+  it('keeps every update when two stores write the same file at once', async () => {
+    const file = stateFile();
+    const first = new FileStateStore(file);
+    const second = new FileStateStore(file);
+    await Promise.all(
+      Array.from({ length: 10 }, (_, index) => [
+        first.updateOrder(`A${index}`, { orderId: `a${index}` }),
+        second.updateOrder(`B${index}`, { orderId: `b${index}` }),
+      ]).flat(),
+    );
+    const reader = new FileStateStore(file);
+    for (let index = 0; index < 10; index++) {
+      assert.equal((await reader.getOrder(`A${index}`))?.orderId, `a${index}`);
+      assert.equal((await reader.getOrder(`B${index}`))?.orderId, `b${index}`);
+    }
+    assert.equal(fs.existsSync(`${file}.lock`), false);
+  });
+
+  it('waits for a lock held by another writer', async () => {
+    const file = stateFile();
+    fs.writeFileSync(`${file}.lock`, '12345');
+    const released = new Promise<void>((resolve) =>
+      setTimeout(() => {
+        fs.rmSync(`${file}.lock`);
+        resolve();
+      }, 200),
+    );
+    const started = Date.now();
+    await new FileStateStore(file).updateOrder('A1', { orderId: '1' });
+    await released;
+    assert.ok(Date.now() - started >= 150);
+    assert.equal((await new FileStateStore(file).getOrder('A1'))?.orderId, '1');
+  });
+
+  it('reclaims a lock left behind by a crashed writer', async () => {
+    const file = stateFile();
+    fs.writeFileSync(`${file}.lock`, '12345');
+    const old = new Date(Date.now() - 60_000);
+    fs.utimesSync(`${file}.lock`, old, old);
+    const started = Date.now();
+    await new FileStateStore(file).updateOrder('A1', { orderId: '1' });
+    assert.ok(Date.now() - started < 2_000);
+    assert.equal(fs.existsSync(`${file}.lock`), false);
+  });
+});
+
+describe('event claims', () => {
+  it('lets only one of two concurrent handlers claim an event', async () => {
+    const file = stateFile();
+    const claims = await Promise.all([
+      new FileStateStore(file).claimEvent('evt-1', { event: 'order:shipment:created' }),
+      new FileStateStore(file).claimEvent('evt-1', { event: 'order:shipment:created' }),
+    ]);
+    assert.deepEqual(claims.sort(), [false, true]);
+  });
+
+  it('frees a released claim and keeps a processed one', async () => {
+    const store = new MemoryStateStore();
+    assert.equal(await store.claimEvent('evt-1', { event: 'x' }), true);
+    await store.releaseEvent('evt-1');
+    assert.equal(await store.claimEvent('evt-1', { event: 'x' }), true);
+    await store.markEventProcessed('evt-1', { event: 'x', orderCode: 'A1' });
+    await store.releaseEvent('evt-1');
+    assert.equal(await store.claimEvent('evt-1', { event: 'x' }), false);
+    assert.equal((await store.getProcessedEvent('evt-1'))?.pending, undefined);
+  });
+});